@@ -29,4 +29,12 @@ module.exports = defineConfig({
 		'n/no-process-exit': 'off',
 		'@typescript-eslint/no-explicit-any': 'off', // we use any in some places
 	},
+	overrides: [
+		{
+			files: ['*.test.ts', 'test-utils.ts'],
+			rules: {
+				'n/no-unsupported-features/node-builtins': 'off', // unit tests run with node 20 in CI
+			},
+		},
+	],
 })
@@ -0,0 +1,197 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+
+const META_FILE = 'build-cache.json'
+
+interface BuildCacheEntry {
+	sha: string
+	node: string
+	platform: string
+	/** size of the stored build output in bytes */
+	size: number
+	createdAt: string
+}
+
+/**
+ * content addressed cache of the build output of qwik, entries are keyed by
+ * qwik sha, node version and platform since the native bindings depend on them
+ */
+export function getBuildCacheKey(sha: string) {
+	return crypto
+		.createHash('sha256')
+		.update([sha, process.version, getPlatform()].join('\n'))
+		.digest('hex')
+		.slice(0, 32)
+}
+
+/**
+ * copy the cached build output for sha into packages/* of the qwik checkout
+ *
+ * @returns false if there is no cache entry for sha
+ */
+export function restoreQwikBuild(
+	cacheDir: string,
+	qwikPath: string,
+	sha: string,
+	outputDirs: string[],
+) {
+	const entryDir = path.join(cacheDir, getBuildCacheKey(sha))
+	const metaFile = path.join(entryDir, META_FILE)
+	if (!fs.existsSync(metaFile)) {
+		return false
+	}
+	for (const pkg of listDirs(entryDir)) {
+		for (const output of outputDirs) {
+			const cached = path.join(entryDir, pkg, output)
+			if (fs.existsSync(cached)) {
+				const target = path.join(qwikPath, 'packages', pkg, output)
+				fs.rmSync(target, { recursive: true, force: true })
+				copyDir(cached, target)
+			}
+		}
+	}
+	// the mtime of the meta file marks the last use for eviction
+	const now = new Date()
+	fs.utimesSync(metaFile, now, now)
+	return true
+}
+
+/**
+ * whether restoreQwikBuild would find an entry for sha, without marking it as used
+ */
+export function hasQwikBuild(cacheDir: string, sha: string) {
+	return fs.existsSync(path.join(cacheDir, getBuildCacheKey(sha), META_FILE))
+}
+
+/**
+ * store the build output of packages/* of the qwik checkout, then evict the
+ * least recently used entries until the cache is smaller than maxSize
+ *
+ * @param maxSize in bytes
+ */
+export function storeQwikBuild(
+	cacheDir: string,
+	qwikPath: string,
+	sha: string,
+	outputDirs: string[],
+	maxSize: number,
+) {
+	const key = getBuildCacheKey(sha)
+	const entryDir = path.join(cacheDir, key)
+	// copy to a temporary dir first so a partial entry is never restored
+	const tmpDir = path.join(cacheDir, `.${key}-${process.pid}`)
+	fs.rmSync(tmpDir, { recursive: true, force: true })
+	const packagesDir = path.join(qwikPath, 'packages')
+	for (const pkg of listDirs(packagesDir)) {
+		for (const output of outputDirs) {
+			const built = path.join(packagesDir, pkg, output)
+			if (fs.existsSync(built)) {
+				copyDir(built, path.join(tmpDir, pkg, output))
+			}
+		}
+	}
+	const size = getSize(tmpDir)
+	if (!size) {
+		// nothing was built, restoring it would skip a build that is needed
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+		return
+	}
+	const entry: BuildCacheEntry = {
+		sha,
+		node: process.version,
+		platform: getPlatform(),
+		size,
+		createdAt: new Date().toISOString(),
+	}
+	fs.writeFileSync(
+		path.join(tmpDir, META_FILE),
+		JSON.stringify(entry, null, 2),
+		'utf-8',
+	)
+	fs.rmSync(entryDir, { recursive: true, force: true })
+	fs.renameSync(tmpDir, entryDir)
+	evictQwikBuilds(cacheDir, maxSize, key)
+}
+
+/**
+ * remove least recently used entries until all entries together are smaller than maxSize
+ *
+ * @param keep key of an entry that is never evicted
+ * @returns keys of the removed entries
+ */
+export function evictQwikBuilds(
+	cacheDir: string,
+	maxSize: number,
+	keep?: string,
+) {
+	const entries = listDirs(cacheDir)
+		.filter((key) => !key.startsWith('.'))
+		.map((key) => {
+			const metaFile = path.join(cacheDir, key, META_FILE)
+			try {
+				const entry: BuildCacheEntry = JSON.parse(
+					fs.readFileSync(metaFile, 'utf-8'),
+				)
+				return {
+					key,
+					size: entry.size,
+					lastUsed: fs.statSync(metaFile).mtimeMs,
+				}
+			} catch {
+				// incomplete entries are evicted first
+				return { key, size: getSize(path.join(cacheDir, key)), lastUsed: 0 }
+			}
+		})
+		.sort((a, b) => a.lastUsed - b.lastUsed)
+	let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+	const evicted: string[] = []
+	for (const entry of entries) {
+		if (total <= maxSize) {
+			break
+		}
+		if (entry.key === keep) {
+			continue
+		}
+		fs.rmSync(path.join(cacheDir, entry.key), { recursive: true, force: true })
+		total -= entry.size
+		evicted.push(entry.key)
+	}
+	return evicted
+}
+
+function copyDir(from: string, to: string) {
+	// experimental until node 22 but available in all supported versions
+	// eslint-disable-next-line n/no-unsupported-features/node-builtins
+	fs.cpSync(from, to, { recursive: true, verbatimSymlinks: true })
+}
+
+function getPlatform() {
+	return `${process.platform}-${process.arch}`
+}
+
+function listDirs(dir: string) {
+	try {
+		return fs
+			.readdirSync(dir, { withFileTypes: true })
+			.filter((entry) => entry.isDirectory())
+			.map((entry) => entry.name)
+	} catch {
+		return []
+	}
+}
+
+function getSize(dir: string): number {
+	let size = 0
+	let entries
+	try {
+		entries = fs.readdirSync(dir, { withFileTypes: true })
+	} catch {
+		return 0
+	}
+	for (const entry of entries) {
+		const file = path.join(dir, entry.name)
+		size += entry.isDirectory() ? getSize(file) : fs.lstatSync(file).size
+	}
+	return size
+}
@@ -0,0 +1,125 @@
+import fs from 'fs'
+import path from 'path'
+import type { DependencyInfo, OverrideCheck } from './types.d.ts'
+
+/**
+ * find every installed instance of the given packages by walking node_modules of dir,
+ * including the virtual store of pnpm
+ *
+ * @returns map of package name to all places it is installed at
+ */
+export function findInstalledPackages(
+	dir: string,
+	names: string[],
+): { [name: string]: DependencyInfo[] } {
+	const found: { [name: string]: DependencyInfo[] } = Object.fromEntries(
+		names.map((name) => [name, []]),
+	)
+	const visited = new Set<string>()
+	const walk = (nodeModules: string, from: string) => {
+		for (const name of listPackages(nodeModules)) {
+			const location = path.join(nodeModules, name)
+			let resolved
+			try {
+				resolved = fs.realpathSync(location)
+			} catch {
+				continue // dangling symlink
+			}
+			const version = readVersion(resolved)
+			if (version == null) {
+				continue
+			}
+			// pnpm store entries link the package itself next to its dependencies
+			if (found[name] && name !== from) {
+				found[name].push({
+					from,
+					version,
+					resolved,
+					path: path.relative(dir, location),
+				})
+			}
+			if (!visited.has(resolved)) {
+				visited.add(resolved)
+				walk(path.join(location, 'node_modules'), name)
+			}
+		}
+	}
+	walk(path.join(dir, 'node_modules'), '.')
+	const store = path.join(dir, 'node_modules', '.pnpm')
+	for (const id of listDirs(store)) {
+		if (id !== 'node_modules') {
+			walk(path.join(store, id, 'node_modules'), parsePnpmStoreId(id))
+		}
+	}
+	return found
+}
+
+/**
+ * compare the installed instances of overridden packages with the versions they were overridden with
+ *
+ * @param expected map of package name to expected version, undefined if the version is not known, e.g. for tarball urls
+ */
+export function checkOverrides(
+	dir: string,
+	expected: { [name: string]: string | undefined },
+): OverrideCheck[] {
+	const found = findInstalledPackages(dir, Object.keys(expected))
+	return Object.entries(expected).map(([name, version]) => {
+		const instances = found[name]
+		const resolved = new Set(instances.map((instance) => instance.resolved))
+		let status: OverrideCheck['status'] = 'ok'
+		if (!instances.length) {
+			status = 'unused'
+		} else if (
+			version &&
+			instances.some((instance) => instance.version !== version)
+		) {
+			status = 'mismatch'
+		} else if (resolved.size > 1) {
+			status = 'duplicate'
+		}
+		return { name, expected: version, status, instances }
+	})
+}
+
+function listDirs(dir: string) {
+	try {
+		return fs
+			.readdirSync(dir, { withFileTypes: true })
+			.filter((entry) => entry.isDirectory() || entry.isSymbolicLink())
+			.map((entry) => entry.name)
+	} catch {
+		return []
+	}
+}
+
+function listPackages(nodeModules: string) {
+	return listDirs(nodeModules)
+		.filter((name) => !name.startsWith('.'))
+		.flatMap((name) =>
+			name.startsWith('@')
+				? listDirs(path.join(nodeModules, name)).map(
+						(scoped) => `${name}/${scoped}`,
+					)
+				: [name],
+		)
+}
+
+function readVersion(packageDir: string): string | undefined {
+	try {
+		const pkg = JSON.parse(
+			fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'),
+		)
+		return pkg.version ?? ''
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * store entries are named like `@scope+name@1.0.0(peer@2.0.0)`
+ */
+function parsePnpmStoreId(id: string) {
+	const versionStart = id.indexOf('@', 1)
+	return (versionStart > 0 ? id.slice(0, versionStart) : id).replace('+', '/')
+}
@@ -0,0 +1,147 @@
+import fs from 'fs'
+import { execa } from 'execa'
+// eslint-disable-next-line n/no-unpublished-import
+import * as semver from 'semver'
+import type { DoctorCheck } from './types.d.ts'
+
+const GB = 1024 ** 3
+// a qwik build and the installs of a suite take a few GB
+const MIN_FREE_DISK = 10 * GB
+
+interface Tool {
+	name: string
+	command: string
+	args?: string[]
+	/** needed to build qwik, only a warning otherwise */
+	required: boolean
+	hint: string
+}
+
+const tools: Tool[] = [
+	{
+		name: 'git',
+		command: 'git',
+		required: true,
+		hint: 'install git',
+	},
+	{
+		name: 'corepack',
+		command: 'corepack',
+		required: false,
+		hint: 'run `npm i -g corepack` and `corepack enable` so suites get their package manager version',
+	},
+	{
+		name: 'pnpm',
+		command: 'pnpm',
+		required: true,
+		hint: 'run `corepack enable`, qwik is built with pnpm',
+	},
+	{
+		name: 'npm',
+		command: 'npm',
+		required: false,
+		hint: 'needed for suites using npm',
+	},
+	{
+		name: 'yarn',
+		command: 'yarn',
+		required: false,
+		hint: 'needed for suites using yarn, run `corepack enable`',
+	},
+	{
+		name: 'bun',
+		command: 'bun',
+		required: false,
+		hint: 'needed for suites using bun',
+	},
+	{
+		name: 'rustc',
+		command: 'rustc',
+		required: true,
+		hint: 'install the rust toolchain from https://rustup.rs, qwik optimizer is written in rust',
+	},
+	{
+		name: 'cargo',
+		command: 'cargo',
+		required: true,
+		hint: 'install the rust toolchain from https://rustup.rs',
+	},
+	{
+		name: 'wasm-pack',
+		command: 'wasm-pack',
+		required: true,
+		hint: 'run `cargo install wasm-pack`, the qwik optimizer is also built for wasm',
+	},
+]
+
+/**
+ * check the toolchain needed to build qwik and install suites
+ *
+ * @param workspace directory whose free disk space is checked
+ * @param nodeRange supported node versions from package.json engines
+ */
+export async function runDoctor(
+	workspace: string,
+	nodeRange: string,
+): Promise<DoctorCheck[]> {
+	const checks: DoctorCheck[] = [checkNode(nodeRange)]
+	for (const tool of tools) {
+		checks.push(await checkTool(tool))
+	}
+	checks.push(checkDisk(workspace))
+	return checks
+}
+
+function checkNode(range: string): DoctorCheck {
+	const version = process.versions.node
+	return semver.satisfies(version, range)
+		? { name: 'node', status: 'ok', message: version }
+		: {
+				name: 'node',
+				status: 'fail',
+				message: `${version} does not satisfy ${range}`,
+			}
+}
+
+async function checkTool(tool: Tool): Promise<DoctorCheck> {
+	const { failed, stdout } = await execa(
+		tool.command,
+		tool.args ?? ['--version'],
+		{ reject: false },
+	)
+	if (failed) {
+		return {
+			name: tool.name,
+			status: tool.required ? 'fail' : 'warn',
+			message: `not found, ${tool.hint}`,
+		}
+	}
+	return { name: tool.name, status: 'ok', message: stdout.split('\n')[0] }
+}
+
+function checkDisk(workspace: string): DoctorCheck {
+	// workspace may not exist yet, check the closest existing parent
+	let dir = workspace
+	while (!fs.existsSync(dir)) {
+		dir = `${dir}/..`
+	}
+	// eslint-disable-next-line n/no-unsupported-features/node-builtins
+	if (!fs.statfsSync) {
+		return {
+			name: 'disk',
+			status: 'warn',
+			message: `cannot check free disk space with node ${process.versions.node}`,
+		}
+	}
+	// eslint-disable-next-line n/no-unsupported-features/node-builtins
+	const { bavail, bsize } = fs.statfsSync(dir)
+	const free = bavail * bsize
+	const message = `${(free / GB).toFixed(1)} GB free in ${workspace}`
+	return free < MIN_FREE_DISK
+		? {
+				name: 'disk',
+				status: 'warn',
+				message: `${message}, at least ${MIN_FREE_DISK / GB} GB are recommended`,
+			}
+		: { name: 'disk', status: 'ok', message }
+}
@@ -2,159 +2,1367 @@ import fs from 'fs'
 import path from 'path'
 import process from 'process'
 import { cac } from 'cac'
+import type { Command } from 'cac'
+// eslint-disable-next-line n/no-unpublished-import
+import * as semver from 'semver'
 
 import {
 	setupEnvironment,
 	setupQwikRepo,
 	buildQwik,
 	bisectQwik,
+	bisectReleases,
+	getReleaseVersions,
 	parseQwikMajor,
 	parseMajorVersion,
+	qwikPackageMaps,
+	resolveReleaseOverrides,
+	parseReleaseMajor,
+	getPermanentRef,
+	hasLocalChanges,
+	packQwik,
+	isQwikBuildFresh,
+	createContext,
+	runInContext,
+	flushContext,
+	mask,
+	log,
+	runInRepo,
+	dirnameFrom,
+	describeBuildQwik,
+	describeSetupRepo,
+	getHeadCommit,
+	getQwikPackageMap,
+	hasUncommittedChanges,
+	resolveRemoteRef,
 } from './utils.ts'
-import type { CommandOptions, RunOptions } from './types.d.ts'
+import { hasQwikBuild } from './build-cache.ts'
+import { createPlan, createSuitePlan, printPlan } from './plan.ts'
+import { runDoctor } from './doctor.ts'
+import { notify } from './notify.ts'
+import { createDryRunGitHubClient, createGitHubClient } from './github.ts'
+import { handlePrComment, postPrResults } from './pr-comment.ts'
+import {
+	describeSuites,
+	getAvailableSuites,
+	getDependencyOverrides,
+	getSuiteDefinition,
+	orderSuites,
+	syncWorkflows,
+} from './manifest.ts'
+import {
+	createReport,
+	createSuiteResult,
+	finishSuiteResult,
+	isSuiteFailure,
+	mergeReports,
+	printSummary,
+	runPhase,
+	withReport,
+} from './report.ts'
+import type {
+	BisectOptions,
+	BuildCacheOptions,
+	BisectStep,
+	CommandOptions,
+	ExecutionContext,
+	NotifyOptions,
+	QwikResult,
+	RunOptions,
+	RunPlan,
+	RunReport,
+	SuiteResult,
+	Task,
+	TaskOptions,
+} from './types.d.ts'
 
 const QWIK_REPO = 'QwikDev/qwik'
 
+/**
+ * options of the commands that build qwik or run suites, grouped by what they configure
+ */
+const optionGroups = {
+	qwikRepo: [
+		['--repo <repo>', 'qwik repository to use', { default: QWIK_REPO }],
+	],
+	qwikRef: [
+		['--branch <branch>', 'qwik branch to use', { default: 'main' }],
+		['--tag <tag>', 'qwik tag to use'],
+		['--commit <commit>', 'qwik commit sha to use'],
+	],
+	qwikPath: [
+		[
+			'--qwik-path <dir>',
+			'use an existing qwik checkout as is instead of workspace/qwik, e.g. with uncommitted changes',
+		],
+	],
+	reuseBuild: [
+		[
+			'--reuse-build',
+			'with --qwik-path, skip building qwik when its build output is newer than its sources',
+		],
+	],
+	buildCache: [
+		[
+			'--no-build-cache',
+			'always build qwik instead of restoring the build output of the same sha from workspace/build-cache',
+		],
+		[
+			'--build-cache-size <mb>',
+			'size of the build cache, least recently used builds are evicted beyond it',
+			{ default: 2048 },
+		],
+	],
+	release: [
+		[
+			'--release <version>',
+			'qwik release to use from npm registry, can be a version, range or dist-tag',
+		],
+		[
+			'--release-package <name=spec>',
+			'override the release of a single qwik package with a version, dist-tag or tarball url, can be used multiple times',
+		],
+		[
+			'--pack',
+			'override suites with tarballs from `pnpm pack` instead of the qwik package directories',
+			{ default: false },
+		],
+	],
+	suites: [
+		[
+			'--baseline',
+			'run suites without and with the qwik under test and only fail on regressions',
+			{ default: false },
+		],
+		[
+			'--concurrency <n>',
+			'number of suites to run in parallel',
+			{ default: 1 },
+		],
+		[
+			'--continue-on-error',
+			'keep running remaining suites when one fails, enabled by default when multiple suites are selected',
+		],
+	],
+	report: [
+		[
+			'--report <file>',
+			'write run results as json to file, defaults to workspace/report.json',
+		],
+	],
+	dryRun: [
+		[
+			'--dry-run',
+			'print the refs, overrides and commands of the run instead of running it',
+		],
+		['--json', 'print the plan of --dry-run as json', { default: false }],
+	],
+} satisfies {
+	[group: string]: [
+		rawName: string,
+		description: string,
+		config?: { default?: unknown },
+	][]
+}
+
 const cli = cac()
-cli
-	.command('[...suites]', 'build qwik and run selected suites')
-	.option('--verify', 'verify checkouts by running tests', { default: false })
-	.option('--repo <repo>', 'qwik repository to use', { default: QWIK_REPO })
-	.option('--branch <branch>', 'qwik branch to use', { default: 'main' })
-	.option('--tag <tag>', 'qwik tag to use')
-	.option('--commit <commit>', 'qwik commit sha to use')
-	.option('--release <version>', 'qwik release to use from npm registry')
-	.action(async (suites, options: CommandOptions) => {
-		const { root, qwikPath, workspace } = await setupEnvironment()
-		const suitesToRun = getSuitesToRun(suites, root)
+withOptions(
+	cli
+		.command('[...suites]', 'build qwik and run selected suites')
+		.option('--verify', 'verify checkouts by running tests', {
+			default: false,
+		}),
+	'qwikRepo',
+	'qwikRef',
+	'qwikPath',
+	'reuseBuild',
+	'buildCache',
+	'release',
+	'suites',
+	'report',
+	'dryRun',
+).action(async (suites, options: CommandOptions) => {
+	if (options.dryRun) {
+		const releases = await getReleases(options)
+		await planRun('run', suites, options, {
+			releases,
+			clone: !options.qwikPath && !releases,
+			build: !releases,
+		})
+		return
+	}
+	const { root, qwikPath, workspace } = await setupEnvironment(options)
+	const suitesToRun = getSuitesToRun(suites, root)
+	const releases = await getReleases(options)
+	const report = createReport('run', options, releases)
+	await withSummary(report, getReportFile(options, workspace), async () => {
 		let qwikMajor
-		if (!options.release) {
-			await setupQwikRepo(options)
-			await buildQwik({ verify: options.verify })
+		if (options.qwikPath) {
+			report.qwik.sha = await getPermanentRef()
+			report.qwik.dirty = await hasLocalChanges()
+			await buildLocalQwik(qwikPath, workspace, options, report.qwik)
+			qwikMajor = parseQwikMajor(qwikPath)
+		} else if (!releases) {
+			await runPhase(report.qwik.phases, 'clone', 'setup', () =>
+				setupQwikRepo(options),
+			)
+			report.qwik.sha = await getPermanentRef()
+			report.qwik.buildCached = await runPhase(
+				report.qwik.phases,
+				'build',
+				'setup',
+				() =>
+					buildQwik({
+						verify: options.verify,
+						cache: getBuildCache(options, workspace),
+					}),
+			)
 			qwikMajor = parseQwikMajor(qwikPath)
 		} else {
-			qwikMajor = parseMajorVersion(options.release)
+			qwikMajor = getReleaseMajor(releases, options.release!)
 		}
+		const tarballs = await getTarballs(workspace, options, report.qwik)
 		const runOptions: RunOptions = {
 			root,
 			qwikPath,
 			qwikMajor,
 			workspace,
 			release: options.release,
+			releases,
+			tarballs,
 			verify: options.verify,
+			baseline: options.baseline,
 			skipGit: false,
 		}
-		for (const suite of suitesToRun) {
-			await run(suite, runOptions)
-		}
+		await runSuites(suitesToRun, runOptions, report.suites, options)
 	})
+})
 
-cli
-	.command('build-qwik', 'build qwik only')
-	.option('--verify', 'verify qwik checkout by running tests', {
-		default: false,
-	})
-	.option('--repo <repo>', 'qwik repository to use', { default: QWIK_REPO })
-	.option('--branch <branch>', 'qwik branch to use', { default: 'main' })
-	.option('--tag <tag>', 'qwik tag to use')
-	.option('--commit <commit>', 'qwik commit sha to use')
-	.action(async (options: CommandOptions) => {
-		await setupEnvironment()
+withOptions(
+	cli
+		.command('build-qwik', 'build qwik only')
+		.option('--verify', 'verify qwik checkout by running tests', {
+			default: false,
+		}),
+	'qwikRepo',
+	'qwikRef',
+	'qwikPath',
+	'reuseBuild',
+	'buildCache',
+	'dryRun',
+).action(async (options: CommandOptions) => {
+	if (options.dryRun) {
+		await planRun('build-qwik', undefined, options, {
+			clone: !options.qwikPath,
+			build: true,
+		})
+		return
+	}
+	const { qwikPath, workspace } = await setupEnvironment(options)
+	const cache = getBuildCache(options, workspace)
+	if (!options.qwikPath) {
 		await setupQwikRepo(options)
-		await buildQwik({ verify: options.verify })
-	})
+		await buildQwik({ verify: options.verify, cache })
+	} else if (!canReuseBuild(qwikPath, options)) {
+		await buildQwik({ verify: options.verify, cache })
+	}
+})
 
-cli
-	.command('run-suites [...suites]', 'run single suite with pre-built qwik')
-	.option(
-		'--verify',
-		'verify checkout by running tests before using local qwik',
-		{ default: false },
-	)
-	.option('--repo <repo>', 'qwik repository to use', { default: QWIK_REPO })
-	.option('--release <version>', 'qwik release to use from npm registry')
-	.action(async (suites, options: CommandOptions) => {
-		const { root, qwikPath, workspace } = await setupEnvironment()
-		const suitesToRun = getSuitesToRun(suites, root)
+withOptions(
+	cli
+		.command('run-suites [...suites]', 'run single suite with pre-built qwik')
+		.option(
+			'--verify',
+			'verify checkout by running tests before using local qwik',
+			{ default: false },
+		),
+	'qwikRepo',
+	'qwikPath',
+	'release',
+	'suites',
+	'report',
+	'dryRun',
+).action(async (suites, options: CommandOptions) => {
+	if (options.dryRun) {
+		await planRun('run-suites', suites, options, {
+			releases: await getReleases(options),
+		})
+		return
+	}
+	const { root, qwikPath, workspace } = await setupEnvironment(options)
+	const suitesToRun = getSuitesToRun(suites, root)
+	const releases = await getReleases(options)
+	const report = createReport('run-suites', options, releases)
+	if (!releases) {
+		report.qwik.sha = await getPermanentRef()
+	}
+	if (options.qwikPath) {
+		report.qwik.dirty = await hasLocalChanges()
+	}
+	await withSummary(report, getReportFile(options, workspace), async () => {
 		const runOptions: RunOptions = {
 			...options,
 			root,
 			qwikPath,
+			qwikMajor: releases
+				? getReleaseMajor(releases, options.release!)
+				: parseQwikMajor(qwikPath),
+			workspace,
+			releases,
+			tarballs: await getTarballs(workspace, options, report.qwik),
+		}
+		await runSuites(suitesToRun, runOptions, report.suites, options)
+	})
+})
+
+withOptions(
+	cli
+		.command(
+			'bisect [...suites]',
+			'use git bisect to find a commit in qwik that broke suites',
+		)
+		.option(
+			'--good <ref>',
+			'last known good ref, e.g. a previous tag, or release with --releases. REQUIRED!',
+		)
+		.option(
+			'--releases',
+			'bisect published qwik releases instead of commits, without building qwik',
+			{ default: false },
+		)
+		.option('--bad <version>', 'first known bad release for --releases', {
+			default: 'latest',
+		})
+		.option('--prereleases', 'include prereleases with --releases', {
+			default: false,
+		})
+		.option(
+			'--registry <url>',
+			'npm registry to get releases from, defaults to npm_config_registry or registry.npmjs.org',
+		)
+		.option('--verify', 'verify checkouts by running tests', { default: false })
+		.option(
+			'--skip-commit <regex>',
+			'skip commits with a matching subject, in addition to release and docs commits, can be used multiple times',
+		)
+		.option(
+			'--skip-path <glob>',
+			'skip commits that only change files matching the glob, e.g. "docs/**" or "*.md", can be used multiple times',
+		),
+	'qwikRepo',
+	'qwikRef',
+	'buildCache',
+	'report',
+	'dryRun',
+).action(async (suites, options: BisectOptions) => {
+	if (!options.good) {
+		console.log(
+			'you have to specify a known good version with `--good <commit|tag>`',
+		)
+		process.exit(1)
+	}
+	if (options.registry) {
+		process.env.npm_config_registry = options.registry
+	}
+	if (options.dryRun) {
+		await planBisect(suites, options)
+		return
+	}
+	if (options.releases) {
+		await bisectReleaseSuites(suites, options)
+		return
+	}
+	const { root, qwikPath, workspace } = await setupEnvironment()
+	const suitesToRun = getSuitesToRun(suites, root)
+	const report = createReport('bisect', options)
+	report.bisect = { good: options.good, steps: [] }
+	const bisect = report.bisect
+	let isFirstRun = true
+	const { verify } = options
+	const runSuite = async (step: BisectStep) => {
+		try {
+			await buildQwik({
+				verify: isFirstRun && verify,
+				cache: getBuildCache(options, workspace),
+			})
+		} catch (e) {
+			// a commit that cannot be built says nothing about the suites
+			step.result = 'skip'
+			step.reason = `qwik build failed: ${e.message ?? e}`
+			return
+		}
+		const suiteOptions: RunOptions = {
+			verify: !!(isFirstRun && verify),
+			skipGit: !isFirstRun,
+			root,
+			qwikPath,
 			qwikMajor: parseQwikMajor(qwikPath),
 			workspace,
 		}
-		for (const suite of suitesToRun) {
-			await run(suite, runOptions)
+		isFirstRun = false
+		try {
+			for (const suite of suitesToRun) {
+				await run(suite, suiteOptions, step.suites)
+			}
+			step.result = 'good'
+		} catch {
+			step.result = 'bad'
+		}
+	}
+	await withReport(report, getReportFile(options, workspace), async () => {
+		await runPhase(report.qwik.phases, 'clone', 'setup', () =>
+			setupQwikRepo({ ...options, shallow: false }),
+		)
+		report.qwik.sha = await getPermanentRef()
+		const initialStep: BisectStep = {
+			sha: report.qwik.sha ?? '',
+			result: 'skip',
+			suites: report.suites,
+		}
+		await runSuite(initialStep)
+		if (initialStep.result === 'bad') {
+			await bisectQwik(options.good, runSuite, bisect, {
+				commitPatterns: [options.skipCommit ?? []]
+					.flat()
+					.map((p) => new RegExp(p)),
+				paths: [options.skipPath ?? []].flat(),
+			})
+			printBisectResult(report)
+		} else if (initialStep.result === 'skip') {
+			throw new Error(
+				`cannot bisect, starting commit failed: ${initialStep.reason}`,
+			)
+		} else {
+			console.log(`no errors for starting commit, cannot bisect`)
+		}
+	})
+})
+cli
+	.command('list-suites [...suites]', 'show the configuration of suites')
+	.option('--json', 'print as json', { default: false })
+	.action(async (suites, options: { json: boolean }) => {
+		const root = dirnameFrom(import.meta.url)
+		const infos = await describeSuites(
+			root,
+			path.resolve(root, 'workspace'),
+			getSuitesToRun(suites, root),
+		)
+		if (options.json) {
+			console.log(JSON.stringify(infos, null, 2))
+			return
+		}
+		for (const info of infos) {
+			console.log(info.name)
+			const rows = [
+				['source', info.source],
+				['repo', info.repo && `${info.repo}#${info.branch}`],
+				[
+					'branches',
+					info.branches &&
+						Object.entries(info.branches)
+							.map(([major, branch]) => `v${major}: ${branch}`)
+							.join(', '),
+				],
+				['agent', info.agent ?? 'unknown, detected on first run'],
+				['qwik', info.qwikMajors?.map((major) => `v${major}`).join(', ')],
+				['depends on', info.dependsOnSuites?.join(', ')],
+				['owners', info.owners?.join(', ')],
+				...Object.entries(info.tasks).map(([phase, task]) => [
+					phase,
+					formatTask(task),
+				]),
+			]
+			for (const [label, value] of rows) {
+				if (value) {
+					console.log(`  ${`${label}:`.padEnd(15)}${value}`)
+				}
+			}
+		}
+	})
+
+cli
+	.command('doctor', 'check the tools needed to build qwik and run suites')
+	.option('--json', 'print as json', { default: false })
+	.action(async (options: { json: boolean }) => {
+		const root = dirnameFrom(import.meta.url)
+		const pkg = JSON.parse(
+			fs.readFileSync(path.join(root, 'package.json'), 'utf-8'),
+		)
+		const checks = await runDoctor(
+			path.resolve(root, 'workspace'),
+			pkg.engines.node,
+		)
+		if (options.json) {
+			console.log(JSON.stringify(checks, null, 2))
+		} else {
+			for (const check of checks) {
+				console.log(
+					`${check.status.padEnd(4)}  ${check.name.padEnd(9)}  ${check.message}`,
+				)
+			}
+		}
+		if (checks.some((check) => check.status === 'fail')) {
+			process.exit(1)
 		}
 	})
 
 cli
 	.command(
-		'bisect [...suites]',
-		'use git bisect to find a commit in qwik that broke suites',
-	)
-	.option('--good <ref>', 'last known good ref, e.g. a previous tag. REQUIRED!')
-	.option('--verify', 'verify checkouts by running tests', { default: false })
-	.option('--repo <repo>', 'qwik repository to use', { default: QWIK_REPO })
-	.option('--branch <branch>', 'qwik branch to use', { default: 'main' })
-	.option('--tag <tag>', 'qwik tag to use')
-	.option('--commit <commit>', 'qwik commit sha to use')
-	.action(async (suites, options: CommandOptions & { good: string }) => {
-		if (!options.good) {
+		'sync-workflows',
+		'update the lists of suites in the github workflows',
+	)
+	.option('--check', 'fail if the workflows are outdated instead of updating', {
+		default: false,
+	})
+	.option('--dry-run', 'print the outdated workflows instead of updating')
+	.action((options: { check: boolean; dryRun?: boolean }) => {
+		const root = dirnameFrom(import.meta.url)
+		const changed = syncWorkflows(
+			root,
+			getAvailableSuites(root),
+			options.check || options.dryRun,
+		)
+		if (changed.length === 0) {
+			console.log('workflows are up to date')
+		} else if (options.dryRun) {
+			console.log(`would update suites in ${changed.join(', ')}`)
+		} else if (options.check) {
 			console.log(
-				'you have to specify a known good version with `--good <commit|tag>`',
+				`outdated suites in ${changed.join(', ')}, run \`pnpm sync-workflows\``,
 			)
 			process.exit(1)
+		} else {
+			console.log(`updated suites in ${changed.join(', ')}`)
 		}
-		const { root, qwikPath, workspace } = await setupEnvironment()
-		const suitesToRun = getSuitesToRun(suites, root)
-		let isFirstRun = true
-		const { verify } = options
-		const runSuite = async () => {
-			try {
-				await buildQwik({ verify: isFirstRun && verify })
-				for (const suite of suitesToRun) {
-					await run(suite, {
-						verify: !!(isFirstRun && verify),
-						skipGit: !isFirstRun,
-						root,
-						qwikPath,
-						qwikMajor: parseQwikMajor(qwikPath),
-						workspace,
-					})
-				}
-				isFirstRun = false
-				return null
-			} catch (e) {
-				return e
+	})
+cli
+	.command('notify', 'send the results of a run to discord, slack or a webhook')
+	.option(
+		'--report <file>',
+		'report of the run, defaults to workspace/report.json. Pass multiple times or a directory to merge the reports of all jobs of a run',
+	)
+	.option(
+		'--history <file>',
+		'compare with the previous run stored in file and store this run',
+	)
+	.option('--status <status>', 'overwrite the status, e.g. with the job status')
+	.option(
+		'--workflow <name>',
+		'name of the workflow, defaults to $WORKFLOW_NAME',
+	)
+	.option(
+		'--discord <url>',
+		'discord webhook url, defaults to $DISCORD_WEBHOOK_URL',
+	)
+	.option('--slack <url>', 'slack webhook url, defaults to $SLACK_WEBHOOK_URL')
+	.option(
+		'--webhook <url>',
+		'url to post the results as json to, defaults to $NOTIFY_WEBHOOK_URL',
+	)
+	.option(
+		'--dry-run',
+		'print the notifications instead of sending them, the history is not written',
+	)
+	.action(async (options: NotifyOptions) => {
+		const root = dirnameFrom(import.meta.url)
+		const files = options.report
+			? [options.report].flat().flatMap(findReportFiles)
+			: [path.join(root, 'workspace', 'report.json')]
+		const reports: RunReport[] = files.map((file) => {
+			if (!fs.existsSync(file)) {
+				throw new Error(`no report found at ${file}`)
 			}
+			return JSON.parse(fs.readFileSync(file, 'utf-8'))
+		})
+		await notify(mergeReports(reports), options)
+	})
+
+cli
+	.command(
+		'pr-comment',
+		'handle a `/ecosystem-ci run` comment on a qwik pull request',
+	)
+	.option(
+		'--event <file>',
+		'issue_comment event payload, defaults to $GITHUB_EVENT_PATH',
+	)
+	.option('--ci-repo <repo>', 'repository to dispatch the run in', {
+		default: 'QwikDev/qwik-ecosystem-ci',
+	})
+	.option('--ci-ref <ref>', 'ref of the workflow to dispatch', {
+		default: 'main',
+	})
+	.option(
+		'--dry-run',
+		'print the comments and the dispatch instead of sending them, permissions and the pull request are still read',
+	)
+	.action(
+		async (options: {
+			event?: string
+			ciRepo: string
+			ciRef: string
+			dryRun?: boolean
+		}) => {
+			const root = dirnameFrom(import.meta.url)
+			const file = options.event ?? process.env.GITHUB_EVENT_PATH
+			if (!file) {
+				throw new Error('pass --event or set GITHUB_EVENT_PATH')
+			}
+			const event = JSON.parse(fs.readFileSync(file, 'utf-8'))
+			await handlePrComment(getGitHubClient(options.dryRun), event, {
+				ciRepo: options.ciRepo,
+				ciRef: options.ciRef,
+				availableSuites: getAvailableSuites(root),
+			})
+		},
+	)
+
+cli
+	.command(
+		'pr-comment-results',
+		'post the results of a run triggered by a pr comment to the pull request',
+	)
+	.option('--pr-repo <repo>', 'repository of the pull request')
+	.option('--pr <number>', 'number of the pull request')
+	.option('--comment-id <id>', 'comment to update, posts a new one if unset')
+	.option(
+		'--report <file>',
+		'report of the run, defaults to workspace/report.json',
+	)
+	.option('--dry-run', 'print the comment instead of posting it')
+	.action(
+		async (options: {
+			prRepo?: string
+			pr?: number
+			commentId?: number
+			report?: string
+			dryRun?: boolean
+		}) => {
+			if (!options.prRepo || !options.pr) {
+				throw new Error('--pr-repo and --pr are required')
+			}
+			const root = dirnameFrom(import.meta.url)
+			const file = getReportFile(options, path.resolve(root, 'workspace'))
+			const report: RunReport | undefined = fs.existsSync(file)
+				? JSON.parse(fs.readFileSync(file, 'utf-8'))
+				: undefined
+			await postPrResults(getGitHubClient(options.dryRun), report, {
+				repo: options.prRepo,
+				pr: Number(options.pr),
+				commentId: options.commentId ? Number(options.commentId) : undefined,
+			})
+		},
+	)
+
+cli.help()
+registerKebabFlags()
+cli.parse()
+
+/**
+ * register groups of optionGroups on command
+ */
+function withOptions(
+	command: Command,
+	...groups: (keyof typeof optionGroups)[]
+) {
+	for (const group of groups) {
+		for (const [rawName, description, config] of optionGroups[group]) {
+			command.option(rawName, description, config)
+		}
+	}
+	return command
+}
+
+/**
+ * cac only registers the camelCase names of boolean options as flags, so `--dry-run suite`
+ * would take the suite as value of the option. The kebab-case names are added as aliases,
+ * options using them can't have a default as cac would set it for the alias too
+ */
+function registerKebabFlags() {
+	for (const command of [cli.globalCommand, ...cli.commands]) {
+		for (const option of command.options) {
+			const name = option.rawName.replace(/^--/, '')
+			if (option.isBoolean && !option.negated && name.includes('-')) {
+				option.names.push(name)
+			}
+		}
+	}
+}
+
+async function bisectReleaseSuites(suites: string[], options: BisectOptions) {
+	const { root, qwikPath, workspace } = await setupEnvironment()
+	const suitesToRun = getSuitesToRun(suites, root)
+	const report = createReport('bisect', { ...options, release: options.bad })
+	report.bisect = {
+		good: options.good,
+		bad: options.bad,
+		releases: true,
+		steps: [],
+	}
+	const bisect = report.bisect
+	let isFirstRun = true
+	const runRelease = async (step: BisectStep) => {
+		let releases
+		try {
+			releases = await resolveReleaseOverrides(step.version!)
+		} catch (e) {
+			step.result = 'skip'
+			step.reason = e.message
+			return
+		}
+		const suiteOptions: RunOptions = {
+			verify: !!(isFirstRun && options.verify),
+			skipGit: !isFirstRun,
+			root,
+			qwikPath,
+			qwikMajor: parseMajorVersion(step.version!),
+			workspace,
+			release: step.version,
+			releases,
 		}
-		await setupQwikRepo({ ...options, shallow: false })
-		const initialError = await runSuite()
-		if (initialError) {
-			await bisectQwik(options.good, runSuite)
+		isFirstRun = false
+		try {
+			for (const suite of suitesToRun) {
+				await run(suite, suiteOptions, step.suites)
+			}
+			step.result = 'good'
+		} catch {
+			step.result = 'bad'
+		}
+	}
+	await withReport(report, getReportFile(options, workspace), async () => {
+		const { good, versions } = await getReleaseVersions(
+			options.good,
+			options.bad!,
+			options.prereleases,
+		)
+		// report the resolved version, options.good can be a range or dist-tag
+		bisect.good = good
+		const badVersion = versions[versions.length - 1]
+		report.qwik.ref = badVersion
+		console.log(
+			`bisecting ${versions.length} releases after ${good} up to ${badVersion}`,
+		)
+		const initialStep: BisectStep = {
+			version: badVersion,
+			result: 'skip',
+			suites: report.suites,
+		}
+		await runRelease(initialStep)
+		if (initialStep.result === 'bad') {
+			await bisectReleases(versions, runRelease, bisect)
+			printBisectResult(report)
+		} else if (initialStep.result === 'skip') {
+			throw new Error(
+				`cannot bisect, release ${badVersion} failed: ${initialStep.reason}`,
+			)
 		} else {
-			console.log(`no errors for starting commit, cannot bisect`)
+			console.log(`no errors for release ${badVersion}, cannot bisect`)
 		}
 	})
-cli.help()
-cli.parse()
+}
+
+async function run(
+	suite: string,
+	options: RunOptions,
+	results: SuiteResult[],
+	contextOptions: { buffered?: boolean; signal?: AbortSignal } = {},
+) {
+	const result = createSuiteResult(suite)
+	results.push(result)
+	const start = Date.now()
+	const context = createContext(suite, contextOptions)
+	try {
+		await runInContext(context, async () => {
+			const skipped = await runSuite(suite, { ...options, result }, results)
+			if (skipped) {
+				result.status = 'skipped'
+				log(`skipping ${suite}, ${skipped}`)
+			}
+		})
+		finishSuiteResult(result, start, undefined, options.baseline)
+	} catch (e) {
+		finishSuiteResult(result, start, e, options.baseline)
+		if (isSuiteFailure(result)) {
+			throw e
+		}
+		log(`suite ${suite} failed in the verify pass too, not a qwik regression`)
+	} finally {
+		maskSuiteResult(result, context)
+		flushContext(context)
+	}
+}
 
-async function run(suite: string, options: RunOptions) {
-	const { test } = await import(`./tests/${suite}.ts`)
-	await test({
+/**
+ * run a suite from suites.json with runInRepo, or call the test of a custom suite in tests/.
+ * With options.plan the suite is only planned, in the same way
+ *
+ * @param results of the suites that ran before, to check the suites it depends on passed
+ * @returns why the suite was skipped
+ */
+async function runSuite(
+	suite: string,
+	options: RunOptions,
+	results: SuiteResult[] = [],
+): Promise<string | undefined> {
+	const suiteOptions: RunOptions = {
 		...options,
 		workspace: path.resolve(options.workspace, suite),
+	}
+	const definition = getSuiteDefinition(options.root, suite)
+	if (!definition) {
+		const { test } = await import(`./tests/${suite}.ts`)
+		await test(suiteOptions)
+		return undefined
+	}
+	if (
+		definition.qwikMajors &&
+		!definition.qwikMajors.includes(options.qwikMajor)
+	) {
+		return `it supports qwik ${definition.qwikMajors.join(', ')} but not ${options.qwikMajor}`
+	}
+	const dependencies = definition.dependsOnSuites ?? []
+	if (options.plan) {
+		if (dependencies.length) {
+			options.plan.notes.push(
+				`skipped if ${dependencies.join(', ')} do not pass`,
+			)
+		}
+	} else {
+		const failed = dependencies.find(
+			(dependency) =>
+				results.find((r) => r.suite === dependency)?.status !== 'success',
+		)
+		if (failed) {
+			return `suite ${failed} it depends on did not pass`
+		}
+	}
+	if (dependencies.length) {
+		// override the packages of the suites it depends on with their checkouts
+		definition.overrides = {
+			...getDependencyOverrides(
+				options.root,
+				options.workspace,
+				definition,
+				options.plan,
+			),
+			...definition.overrides,
+		}
+	}
+	await runInRepo({
+		...suiteOptions,
+		...definition,
+		branch: definition.branches?.[options.qwikMajor] ?? definition.branch,
+	})
+	return undefined
+}
+
+/**
+ * print what a command would do with --dry-run. Nothing is written, only read-only git commands are run,
+ * e.g. to resolve refs, and checkouts of earlier runs are read to detect package managers and scripts
+ *
+ * @param suites undefined for commands that don't run suites
+ * @param options.clone whether qwik is cloned, otherwise the local or existing checkout is used
+ * @param options.build whether qwik is built
+ */
+async function planRun(
+	command: string,
+	suites: string[] | undefined,
+	options: CommandOptions,
+	{
+		releases,
+		clone = false,
+		build = false,
+		shallow = true,
+	}: {
+		releases?: { [name: string]: string }
+		clone?: boolean
+		build?: boolean
+		shallow?: boolean
+	},
+	notes: string[] = [],
+) {
+	const { root, qwikPath, workspace } = await setupEnvironment({
+		...options,
+		dryRun: true,
+	})
+	const plan = createPlan(command, options, releases)
+	const { qwik } = plan
+	qwik.notes.push(...notes)
+	if (releases) {
+		qwik.major = getReleaseMajor(releases, options.release!)
+	} else {
+		await planQwik(qwik, qwikPath, workspace, options, {
+			clone,
+			build,
+			shallow,
+		})
+	}
+	let tarballs
+	if (options.pack && !releases) {
+		tarballs = planPack(qwik, qwikPath, workspace)
+	}
+	if (suites) {
+		const runOptions: RunOptions = {
+			root,
+			qwikPath,
+			qwikMajor: qwik.major!,
+			workspace,
+			release: options.release,
+			releases,
+			tarballs,
+			verify: options.verify,
+			baseline: options.baseline,
+			skipGit: false,
+		}
+		for (const suite of getSuitesToRun(suites, root, false)) {
+			plan.suites.push(await planSuite(suite, runOptions))
+		}
+	}
+	printPlan(plan, options.json)
+}
+
+async function planQwik(
+	qwik: RunPlan['qwik'],
+	qwikPath: string,
+	workspace: string,
+	options: CommandOptions,
+	{
+		clone,
+		build,
+		shallow,
+	}: { clone: boolean; build: boolean; shallow: boolean },
+) {
+	const cloned = fs.existsSync(path.join(qwikPath, 'package.json'))
+	if (clone) {
+		const repo = options.repo || QWIK_REPO
+		const { tag, commit, branch = 'main' } = options
+		qwik.sha =
+			commit ??
+			(await resolveRemoteRef(repo, tag ? `refs/tags/${tag}` : branch))
+		if (!qwik.sha) {
+			qwik.notes.push(`cannot resolve ${tag ?? branch} of ${repo}`)
+		}
+		qwik.phases.push({
+			name: 'clone',
+			pass: 'setup',
+			commands: describeSetupRepo(
+				{ repo, dir: qwikPath, branch, tag, commit, shallow },
+				cloned,
+			),
+		})
+	} else {
+		qwik.sha = await getHeadCommit(qwikPath)
+		qwik.dirty = options.qwikPath
+			? await hasUncommittedChanges(qwikPath)
+			: undefined
+	}
+	try {
+		qwik.major = parseQwikMajor(qwikPath)
+		if (clone && cloned) {
+			qwik.notes.push(
+				`major is read from the existing checkout in ${qwikPath}, it may change with the checkout`,
+			)
+		}
+	} catch {
+		qwik.major = 1
+		qwik.notes.push(
+			`${qwikPath} is not cloned yet, suites are planned for qwik ${qwik.major}`,
+		)
+	}
+	if (!build) {
+		return
+	}
+	if (options.qwikPath && options.reuseBuild && isQwikBuildFresh(qwikPath)) {
+		qwik.notes.push(`build output of ${qwikPath} is up to date, skipping build`)
+		return
+	}
+	const cache = getBuildCache(options, workspace)
+	const restore = !!(
+		cache &&
+		qwik.sha &&
+		!qwik.dirty &&
+		hasQwikBuild(cache.dir, qwik.sha)
+	)
+	if (restore) {
+		qwik.notes.push(`build of ${qwik.sha} is restored from ${cache!.dir}`)
+	}
+	qwik.phases.push({
+		name: 'build',
+		pass: 'setup',
+		commands: describeBuildQwik({ verify: options.verify, restore }),
+	})
+}
+
+/**
+ * tarballs packQwik would create or reuse, pnpm names them after the package and its version
+ */
+function planPack(qwik: RunPlan['qwik'], qwikPath: string, workspace: string) {
+	const key = qwik.dirty || !qwik.sha ? 'local' : qwik.sha
+	const dest = path.join(workspace, 'tarballs', key)
+	const indexFile = path.join(dest, 'tarballs.json')
+	if (key !== 'local' && fs.existsSync(indexFile)) {
+		const tarballs: { [name: string]: string } = JSON.parse(
+			fs.readFileSync(indexFile, 'utf-8'),
+		)
+		if (Object.values(tarballs).every((file) => fs.existsSync(file))) {
+			qwik.notes.push(`tarballs of ${key} are reused from ${dest}`)
+			return tarballs
+		}
+	}
+	const { packages } = getQwikPackageMap(qwik.major!)
+	qwik.phases.push({
+		name: 'pack',
+		pass: 'setup',
+		commands: Object.values(packages).map(
+			(dir) =>
+				`cd ${path.join(qwikPath, dir)} && pnpm pack --pack-destination ${dest}`,
+		),
+	})
+	return Object.fromEntries(
+		Object.keys(packages).map((name) => [
+			name,
+			path.join(
+				dest,
+				`${name.replace(/^@/, '').replace('/', '-')}-<version>.tgz`,
+			),
+		]),
+	)
+}
+
+async function planBisect(suites: string[], options: BisectOptions) {
+	if (!options.releases) {
+		await planRun(
+			'bisect',
+			suites,
+			options,
+			{ clone: true, build: true, shallow: false },
+			[
+				`git bisect from ${options.good} to this commit, every step builds qwik and runs the suites without git`,
+			],
+		)
+		return
+	}
+	let releaseVersions: { good: string; versions: string[] }
+	let releases: { [name: string]: string }
+	try {
+		releaseVersions = await getReleaseVersions(
+			options.good!,
+			options.bad!,
+			options.prereleases,
+		)
+		const { versions } = releaseVersions
+		releases = await resolveReleaseOverrides(versions[versions.length - 1])
+	} catch (e) {
+		console.log(`cannot resolve the releases to bisect: ${e.message}`)
+		process.exit(1)
+	}
+	const { good, versions } = releaseVersions
+	const badVersion = versions[versions.length - 1]
+	await planRun(
+		'bisect',
+		suites,
+		{ ...options, release: badVersion },
+		{ releases },
+		[
+			`bisecting ${versions.length} releases after ${good} up to ${badVersion}: ${versions.join(', ')}`,
+		],
+	)
+}
+
+/**
+ * plan a suite like run, custom suites are called with options.plan so runInRepo only plans
+ */
+async function planSuite(suite: string, options: RunOptions) {
+	const plan = createSuitePlan(suite)
+	await runInContext(createContext(suite), async () => {
+		plan.skipped = await runSuite(suite, { ...options, plan })
+	})
+	return plan
+}
+
+function maskSuiteResult(result: SuiteResult, context: ExecutionContext) {
+	if (result.error) {
+		result.error = mask(result.error, context)
+	}
+	for (const phase of result.phases) {
+		if (phase.error) {
+			phase.error = mask(phase.error, context)
+		}
+	}
+}
+
+async function runSuites(
+	suites: string[],
+	options: RunOptions,
+	results: SuiteResult[],
+	{ continueOnError = suites.length > 1, concurrency = 1 }: CommandOptions,
+) {
+	const queue = [...suites]
+	// output of parallel suites is buffered and printed once a suite is done to avoid interleaving
+	const buffered = concurrency > 1
+	// cancels suites still running in parallel once one fails without continueOnError
+	const controller = new AbortController()
+	let error: unknown
+	// suites are ordered, so the suites a suite depends on were picked by a worker before it
+	const running = new Map<string, Promise<unknown>>()
+	const worker = async () => {
+		while (queue.length > 0 && error == null) {
+			const suite = queue.shift()!
+			const dependencies =
+				getSuiteDefinition(options.root, suite)?.dependsOnSuites ?? []
+			// register before waiting so that workers picking dependent suites see it
+			const promise = Promise.all(dependencies.map((d) => running.get(d))).then(
+				() =>
+					run(suite, options, results, {
+						buffered,
+						signal: controller.signal,
+					}),
+			)
+			running.set(
+				suite,
+				promise.catch(() => {}),
+			)
+			try {
+				await promise
+			} catch (e) {
+				if (!continueOnError) {
+					error ??= e
+					controller.abort()
+				} else {
+					console.error(
+						`suite ${suite} failed, continuing with remaining suites`,
+						e,
+					)
+				}
+			}
+		}
+	}
+	const workers = Math.max(1, Math.min(concurrency, suites.length))
+	await Promise.all(Array.from({ length: workers }, worker))
+	if (error != null) {
+		throw error
+	}
+}
+
+/**
+ * like withReport, but a failure that stops the run is printed with the summary instead of thrown
+ */
+async function withSummary(
+	report: RunReport,
+	file: string,
+	fn: () => Promise<void>,
+) {
+	try {
+		await withReport(report, file, fn)
+	} catch (e) {
+		console.error(e)
+	}
+	printSummary(report)
+	exitWithStatus(report)
+}
+
+function exitWithStatus(report: RunReport) {
+	if (report.status === 'failure') {
+		process.exitCode = 1
+	}
+}
+
+function formatTask(task: Task | Task[]): string {
+	if (Array.isArray(task)) {
+		return task.map(formatTask).join(' && ')
+	}
+	if (typeof task === 'string') {
+		return task
+	}
+	if (typeof task === 'function') {
+		return task.name || 'function'
+	}
+	const {
+		script,
+		command,
+		args,
+		...taskOptions
+	}: TaskOptions & { script?: string; command?: string; args?: string[] } = task
+	const options = Object.entries(taskOptions)
+		.map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+		.join(' ')
+	return (
+		[command ?? script, ...(args ?? [])].join(' ') +
+		(options ? ` (${options})` : '')
+	)
+}
+
+/**
+ * client for the api of the current github server, GITHUB_API_URL can point to a local mock
+ *
+ * @param dryRun only send GET requests and print the others, comments created by them get id 0
+ */
+function getGitHubClient(dryRun = false) {
+	const client = createGitHubClient({
+		token: process.env.GITHUB_TOKEN,
+		apiUrl: process.env.GITHUB_API_URL,
 	})
+	return dryRun ? createDryRunGitHubClient(client, { id: 0 }) : client
 }
 
-function getSuitesToRun(suites: string[], root: string) {
+/**
+ * directories are searched for json files, e.g. downloaded artifacts of all jobs of a run
+ */
+function findReportFiles(file: string): string[] {
+	const resolved = path.resolve(file)
+	if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+		return [resolved]
+	}
+	return fs
+		.readdirSync(resolved, { recursive: true, encoding: 'utf-8' })
+		.filter((name) => name.endsWith('.json'))
+		.sort()
+		.map((name) => path.join(resolved, name))
+}
+
+function getReportFile(options: { report?: string }, workspace: string) {
+	return options.report
+		? path.resolve(options.report)
+		: path.join(workspace, 'report.json')
+}
+
+function printBisectResult(report: RunReport) {
+	const bisect = report.bisect
+	const kind = bisect?.releases ? 'release' : 'commit'
+	if (!bisect?.firstBad) {
+		console.log(`bisect did not find a first bad ${kind}`)
+	} else if (bisect.releases) {
+		console.log(
+			`first bad release: ${bisect.firstBad}, last good release: ${bisect.lastGood}`,
+		)
+		// the commits of the releases are tagged with v and the version
+		const good = semver.valid(bisect.lastGood)
+		const bad = semver.valid(bisect.firstBad)
+		if (good && bad) {
+			console.log(
+				`narrow it down with: pnpm bisect --good v${good} --tag v${bad}`,
+			)
+		}
+	} else {
+		console.log(`first bad commit: ${bisect.firstBad}`)
+	}
+}
+
+async function getReleases(options: CommandOptions) {
+	if (!options.release) {
+		if (options.releasePackage) {
+			console.log(
+				'`--release-package` can only be used together with `--release`',
+			)
+			process.exit(1)
+		}
+		return undefined
+	}
+	if (options.qwikPath) {
+		console.log('`--qwik-path` cannot be used together with `--release`')
+		process.exit(1)
+	}
+	if (options.pack) {
+		console.log('`--pack` cannot be used together with `--release`')
+		process.exit(1)
+	}
+	try {
+		return await resolveReleaseOverrides(
+			options.release,
+			options.releasePackage,
+		)
+	} catch (e) {
+		console.log(`cannot resolve --release ${options.release}: ${e.message}`)
+		process.exit(1)
+	}
+}
+
+async function getTarballs(
+	workspace: string,
+	options: CommandOptions,
+	qwik: QwikResult,
+) {
+	if (!options.pack) {
+		return undefined
+	}
+	return runPhase(qwik.phases, 'pack', 'setup', () =>
+		packQwik(workspace, qwik.sha, !qwik.dirty),
+	)
+}
+
+function canReuseBuild(qwikPath: string, options: CommandOptions) {
+	if (options.reuseBuild && isQwikBuildFresh(qwikPath)) {
+		console.log(`build output of ${qwikPath} is up to date, skipping build`)
+		return true
+	}
+	return false
+}
+
+/**
+ * build a local qwik checkout unless --reuse-build is set and its build output is up to date
+ */
+async function buildLocalQwik(
+	qwikPath: string,
+	workspace: string,
+	options: CommandOptions,
+	qwik: QwikResult,
+) {
+	if (canReuseBuild(qwikPath, options)) {
+		qwik.phases.push({
+			name: 'build',
+			pass: 'setup',
+			status: 'skipped',
+			duration: 0,
+		})
+		return
+	}
+	qwik.buildCached = await runPhase(qwik.phases, 'build', 'setup', () =>
+		buildQwik({
+			verify: options.verify,
+			cache: getBuildCache(options, workspace),
+		}),
+	)
+}
+
+/**
+ * builds are cached in workspace/build-cache unless --no-build-cache is set
+ */
+function getBuildCache(
+	options: CommandOptions,
+	workspace: string,
+): BuildCacheOptions | undefined {
+	if (options.buildCache === false) {
+		return undefined
+	}
+	return {
+		dir: path.join(workspace, 'build-cache'),
+		maxSize: Number(options.buildCacheSize ?? 2048) * 1024 * 1024,
+	}
+}
+
+/**
+ * major of the core package, taken from --release if the core package is a tarball, e.g. of a preview build
+ */
+function getReleaseMajor(
+	releases: { [name: string]: string },
+	release: string,
+) {
+	const core = Object.values(qwikPackageMaps).find(
+		({ core }) => releases[core],
+	)!.core
+	const version = releases[core]
+	return semver.valid(version)
+		? parseMajorVersion(version)
+		: parseReleaseMajor(release)
+}
+
+/**
+ * @param announce log the suites that are added because selected suites depend on them
+ */
+function getSuitesToRun(suites: string[], root: string, announce = true) {
 	let suitesToRun: string[] = suites
-	const availableSuites: string[] = fs
-		.readdirSync(path.join(root, 'tests'))
-		.filter((f: string) => !f.startsWith('_') && f.endsWith('.ts'))
-		.map((f: string) => f.slice(0, -3))
-	availableSuites.sort()
+	const availableSuites = getAvailableSuites(root)
 	if (suitesToRun.length === 0) {
 		suitesToRun = availableSuites
 	} else {
@@ -167,5 +1375,12 @@ function getSuitesToRun(suites: string[], root: string) {
 			process.exit(1)
 		}
 	}
-	return suitesToRun
+	const ordered = orderSuites(root, suitesToRun)
+	const added = ordered.filter((suite) => !suitesToRun.includes(suite))
+	if (announce && added.length) {
+		console.log(
+			`also running ${added.join(', ')}, selected suites depend on them`,
+		)
+	}
+	return ordered
 }
@@ -0,0 +1,64 @@
+import fetch from 'node-fetch'
+import type { GitHubClient } from './types.d.ts'
+
+const DEFAULT_API_URL = 'https://api.github.com'
+
+/**
+ * minimal client for the github rest api, apiUrl can point to a local mock
+ */
+export function createGitHubClient(
+	options: { token?: string; apiUrl?: string } = {},
+): GitHubClient {
+	const apiUrl = (options.apiUrl || DEFAULT_API_URL).replace(/\/$/, '')
+	return {
+		async request<T>(method: string, path: string, body?: unknown) {
+			const res = await fetch(`${apiUrl}${path}`, {
+				method,
+				headers: {
+					Accept: 'application/vnd.github.v3+json',
+					...(options.token
+						? { Authorization: `token ${options.token}` }
+						: undefined),
+					...(body !== undefined
+						? { 'Content-Type': 'application/json' }
+						: undefined),
+				},
+				body: body !== undefined ? JSON.stringify(body) : undefined,
+			})
+			if (!res.ok) {
+				throw Object.assign(
+					new Error(
+						`${method} ${path} failed with ${res.status} ${res.statusText}: ${await res.text()}`,
+					),
+					{ status: res.status },
+				)
+			}
+			// e.g. 204 of workflow dispatches
+			const text = await res.text()
+			return (text ? JSON.parse(text) : undefined) as T
+		},
+	}
+}
+
+/**
+ * client that only sends GET requests and prints the others, for --dry-run
+ *
+ * @param response returned for the requests that are not sent
+ */
+export function createDryRunGitHubClient(
+	client: GitHubClient,
+	response: unknown = {},
+): GitHubClient {
+	return {
+		async request<T>(method: string, path: string, body?: unknown) {
+			if (method === 'GET') {
+				return client.request<T>(method, path)
+			}
+			console.log(`would send ${method} ${path}`)
+			if (body !== undefined) {
+				console.log(JSON.stringify(body, null, 2))
+			}
+			return response as T
+		},
+	}
+}
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import path from 'node:path'
+import { describe, it } from 'node:test'
+import { writeJUnitReports } from './junit.ts'
+import { createResult, createRunReport, createTempDir } from './test-utils.ts'
+
+const tmpDir = createTempDir()
+
+describe('writeJUnitReports', () => {
+	it('writes the phases of every suite as testcases', () => {
+		const failed = createResult('failed', [
+			['install', 'override', 'success'],
+			['test', 'override', 'failure'],
+		])
+		failed.phases[1].error = 'tests failed <exit code 1>\nstack'
+		const report = createRunReport([
+			failed,
+			createResult('skipped', [['beforeInstall', 'setup', 'skipped']], {
+				status: 'skipped',
+			}),
+		])
+		report.qwik.phases = createResult('qwik', [
+			['clone', 'setup', 'success'],
+			['build', 'setup', 'success'],
+		]).phases
+		writeJUnitReports(tmpDir, report)
+
+		const merged = fs.readFileSync(path.join(tmpDir, 'junit.xml'), 'utf-8')
+		assert.match(
+			merged,
+			/<testsuites name="qwik ecosystem-ci" tests="5" failures="1" errors="0" skipped="1">/,
+		)
+		assert.match(
+			merged,
+			/<testsuite name="qwik" tests="2" failures="0" errors="0" skipped="0"/,
+		)
+		const suite = fs.readFileSync(
+			path.join(tmpDir, 'junit', 'failed.xml'),
+			'utf-8',
+		)
+		assert.match(
+			suite,
+			/<testcase classname="failed.override" name="test" time="0.000">\n<failure message="tests failed &lt;exit code 1&gt;">tests failed &lt;exit code 1&gt;\nstack<\/failure>/,
+		)
+		assert.ok(fs.existsSync(path.join(tmpDir, 'junit', 'skipped.xml')))
+	})
+
+	it('counts the tests of nested test reports in the suite and the run', () => {
+		const dir = path.join(tmpDir, 'nested')
+		fs.mkdirSync(dir)
+		fs.writeFileSync(
+			path.join(dir, 'results.json'),
+			JSON.stringify({
+				testResults: [
+					{
+						assertionResults: [
+							{ ancestorTitles: ['math'], title: 'adds', status: 'passed' },
+							{
+								ancestorTitles: ['math'],
+								title: 'subtracts',
+								status: 'failed',
+							},
+							{ ancestorTitles: ['math'], title: 'divides', status: 'failed' },
+							{ ancestorTitles: ['math'], title: 'rounds', status: 'skipped' },
+						],
+					},
+				],
+			}),
+		)
+		const result = createResult('suite', [['test', 'override', 'failure']], {
+			dir,
+			tests: {
+				reports: ['results.json'],
+				passed: 1,
+				failed: ['math > divides'],
+				knownFailures: ['math > subtracts'],
+				fixed: [],
+			},
+		})
+		writeJUnitReports(dir, createRunReport([result]))
+
+		const suite = fs.readFileSync(path.join(dir, 'junit', 'suite.xml'), 'utf-8')
+		assert.match(
+			suite,
+			/<testsuite name="suite" tests="5" failures="2" errors="0" skipped="2" time="0.000">/,
+		)
+		assert.match(
+			suite,
+			/<testsuite name="suite results.json" tests="4" failures="1" errors="0" skipped="2">/,
+		)
+		assert.match(
+			fs.readFileSync(path.join(dir, 'junit.xml'), 'utf-8'),
+			/<testsuites name="qwik ecosystem-ci" tests="5" failures="2" errors="0" skipped="2">/,
+		)
+	})
+})
@@ -0,0 +1,166 @@
+import fs from 'fs'
+import path from 'path'
+import { parseTestReport } from './test-results.ts'
+import type { PhaseResult, RunReport, SuiteResult } from './types.d.ts'
+
+interface Counts {
+	tests: number
+	failures: number
+	skipped: number
+}
+
+interface TestSuite {
+	xml: string
+	counts: Counts
+}
+
+/**
+ * write a junit xml file for every suite to dir/junit and one with all suites to dir/junit.xml
+ */
+export function writeJUnitReports(dir: string, report: RunReport) {
+	const suitesDir = path.join(dir, 'junit')
+	fs.mkdirSync(suitesDir, { recursive: true })
+	const elements: TestSuite[] = []
+	if (report.qwik.phases.length) {
+		elements.push(phasesToTestSuite('qwik', report.qwik.phases))
+	}
+	for (const result of report.suites) {
+		const element = suiteToTestSuite(result)
+		fs.writeFileSync(
+			path.join(suitesDir, `${result.suite}.xml`),
+			`<?xml version="1.0" encoding="UTF-8"?>\n${element.xml}\n`,
+			'utf-8',
+		)
+		elements.push(element)
+	}
+	const counts = sumCounts(elements.map((e) => e.counts))
+	const file = path.join(dir, 'junit.xml')
+	fs.writeFileSync(
+		file,
+		`<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="qwik ecosystem-ci" ${formatCounts(counts)}>\n${elements.map((e) => e.xml).join('\n')}\n</testsuites>\n`,
+		'utf-8',
+	)
+	console.log(`wrote junit reports to ${file} and ${suitesDir}`)
+}
+
+/**
+ * the phases of a suite are its testcases, test reports of the suite are nested as testsuites
+ * and count towards the tests of the suite
+ */
+function suiteToTestSuite(result: SuiteResult) {
+	return phasesToTestSuite(
+		result.suite,
+		result.phases,
+		result.duration,
+		readTestReports(result),
+	)
+}
+
+function phasesToTestSuite(
+	name: string,
+	phases: PhaseResult[],
+	duration = phases.reduce((sum, p) => sum + p.duration, 0),
+	nested: TestSuite[] = [],
+): TestSuite {
+	const counts = sumCounts([
+		{
+			tests: phases.length,
+			failures: phases.filter((p) => p.status === 'failure').length,
+			skipped: phases.filter((p) => p.status === 'skipped').length,
+		},
+		...nested.map((n) => n.counts),
+	])
+	const testcases = phases.map((phase) => {
+		const attributes = `classname="${escapeXml(`${name}.${phase.pass}`)}" name="${phase.name}" time="${seconds(phase.duration)}"`
+		if (phase.status === 'failure') {
+			return `<testcase ${attributes}>\n<failure message="${escapeXml(firstLine(phase.error))}">${escapeXml(phase.error ?? '')}</failure>\n</testcase>`
+		}
+		if (phase.status === 'skipped') {
+			return `<testcase ${attributes}>\n<skipped/>\n</testcase>`
+		}
+		return `<testcase ${attributes}/>`
+	})
+	const children = [...testcases, ...nested.map((n) => n.xml)].join('\n')
+	return {
+		xml: `<testsuite name="${escapeXml(name)}" ${formatCounts(counts)} time="${seconds(duration)}">\n${children}\n</testsuite>`,
+		counts,
+	}
+}
+
+/**
+ * test reports of the override pass as nested testsuites, known failures are skipped testcases
+ */
+function readTestReports(result: SuiteResult): TestSuite[] {
+	if (!result.tests || !result.dir) {
+		return []
+	}
+	const knownFailures = result.tests.knownFailures
+	return result.tests.reports.flatMap((report) => {
+		let tests
+		try {
+			tests = parseTestReport(path.join(result.dir!, report))
+		} catch {
+			return [] // removed or replaced by a later run
+		}
+		const counts: Counts = { tests: tests.length, failures: 0, skipped: 0 }
+		const testcases = tests.map((test) => {
+			const attributes = `classname="${escapeXml(result.suite)}" name="${escapeXml(test.name)}"`
+			if (test.status === 'failed' && knownFailures.includes(test.name)) {
+				counts.skipped++
+				return `<testcase ${attributes}>\n<skipped message="known failure"/>\n</testcase>`
+			}
+			if (test.status === 'failed') {
+				counts.failures++
+				return `<testcase ${attributes}>\n<failure/>\n</testcase>`
+			}
+			if (test.status === 'skipped') {
+				counts.skipped++
+				return `<testcase ${attributes}>\n<skipped/>\n</testcase>`
+			}
+			return `<testcase ${attributes}/>`
+		})
+		return [
+			{
+				xml: `<testsuite name="${escapeXml(`${result.suite} ${report}`)}" ${formatCounts(counts)}>\n${testcases.join('\n')}\n</testsuite>`,
+				counts,
+			},
+		]
+	})
+}
+
+function sumCounts(counts: Counts[]): Counts {
+	return counts.reduce(
+		(sum, c) => ({
+			tests: sum.tests + c.tests,
+			failures: sum.failures + c.failures,
+			skipped: sum.skipped + c.skipped,
+		}),
+		{ tests: 0, failures: 0, skipped: 0 },
+	)
+}
+
+function formatCounts({ tests, failures, skipped }: Counts) {
+	return `tests="${tests}" failures="${failures}" errors="0" skipped="${skipped}"`
+}
+
+function seconds(ms: number) {
+	return (ms / 1000).toFixed(3)
+}
+
+function firstLine(text = '') {
+	return text.split('\n', 1)[0]
+}
+
+function escapeXml(text: string) {
+	return (
+		text
+			// control characters like the escape of terminal colors are not allowed in xml
+			// eslint-disable-next-line no-control-regex
+			.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+			.replace(/&/g, '&amp;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;')
+			.replace(/"/g, '&quot;')
+			.replace(/'/g, '&apos;')
+	)
+}
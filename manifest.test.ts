@@ -0,0 +1,197 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import path from 'node:path'
+import { describe, it } from 'node:test'
+import {
+	getAvailableSuites,
+	getDependencyOverrides,
+	getSuiteDefinition,
+	loadManifest,
+} from './manifest.ts'
+import { createSuitePlan } from './plan.ts'
+import { createTempDir } from './test-utils.ts'
+
+const tmpDir = createTempDir()
+
+/**
+ * root with suites.json containing suites and the schema of this repo
+ */
+function createRoot(name: string, suites: unknown) {
+	const root = path.join(tmpDir, name)
+	fs.mkdirSync(root)
+	fs.copyFileSync(
+		path.join(import.meta.dirname, 'suites.schema.json'),
+		path.join(root, 'suites.schema.json'),
+	)
+	fs.writeFileSync(path.join(root, 'suites.json'), JSON.stringify({ suites }))
+	return root
+}
+
+describe('loadManifest', () => {
+	it('accepts suites with tasks', () => {
+		const root = createRoot('valid', {
+			suite: {
+				repo: 'owner/repo',
+				build: 'build',
+				test: [{ script: 'test', retries: 2 }, 'test:e2e'],
+			},
+		})
+		assert.deepEqual(Object.keys(loadManifest(root).suites), ['suite'])
+	})
+
+	it('rejects suites without repo or with unknown properties', () => {
+		const root = createRoot('invalid', {
+			suite: { branch: 'main', tests: 'test' },
+		})
+		assert.throws(() => loadManifest(root), {
+			message:
+				'invalid suites.json:\n  suites.suite is missing repo\n  suites.suite.tests is not an allowed property',
+		})
+	})
+
+	it('rejects invalid suite names and tasks', () => {
+		const root = createRoot('invalid-task', {
+			Suite: {
+				repo: 'owner/repo',
+				test: { script: 'test', command: 'vitest' },
+			},
+		})
+		assert.throws(
+			() => loadManifest(root),
+			/suites\.Suite is not a valid name[\s\S]*suites\.Suite\.test must have exactly one of script or command/,
+		)
+	})
+})
+
+describe('getSuiteDefinition', () => {
+	it('returns copies that runs cannot change', () => {
+		const root = createRoot('copy', { suite: { repo: 'owner/repo' } })
+		getSuiteDefinition(root, 'suite')!.overrides = { vite: 'latest' }
+		assert.deepEqual(getSuiteDefinition(root, 'suite'), { repo: 'owner/repo' })
+		assert.equal(getSuiteDefinition(root, 'unknown'), undefined)
+	})
+})
+
+describe('getAvailableSuites', () => {
+	it('rejects suites declared in suites.json and tests/', () => {
+		const root = createRoot('duplicate', { suite: { repo: 'owner/repo' } })
+		fs.mkdirSync(path.join(root, 'tests'))
+		fs.writeFileSync(path.join(root, 'tests', 'suite.ts'), '')
+		fs.writeFileSync(path.join(root, 'tests', 'custom.ts'), '')
+		fs.writeFileSync(path.join(root, 'tests', '_local.ts'), '')
+		assert.throws(
+			() => getAvailableSuites(root),
+			/suite\(s\) suite are declared in suites.json and tests\//,
+		)
+		fs.rmSync(path.join(root, 'tests', 'suite.ts'))
+		assert.deepEqual(getAvailableSuites(root), ['custom', 'suite'])
+	})
+})
+
+describe('manifest env', () => {
+	it('accepts plain values and values read from the environment', () => {
+		const root = createRoot('env', {
+			suite: {
+				repo: 'owner/repo',
+				env: {
+					PLAIN: 'value',
+					TOKEN: { fromEnv: 'ECOSYSTEM_CI_TEST_TOKEN', secret: true },
+				},
+			},
+		})
+		process.env.ECOSYSTEM_CI_TEST_TOKEN = 'token'
+		try {
+			assert.deepEqual(getSuiteDefinition(root, 'suite')?.env, {
+				PLAIN: 'value',
+				TOKEN: { value: 'token', secret: true },
+			})
+		} finally {
+			delete process.env.ECOSYSTEM_CI_TEST_TOKEN
+		}
+	})
+
+	it('rejects secret values written into suites.json', () => {
+		const root = createRoot('secret-value', {
+			suite: {
+				repo: 'owner/repo',
+				env: { TOKEN: { value: 'token', secret: true } },
+			},
+		})
+		assert.throws(
+			() => loadManifest(root),
+			/suites\.suite\.env\.TOKEN\.value is not an allowed property/,
+		)
+	})
+
+	it('rejects values that are not strings', () => {
+		const root = createRoot('number', {
+			suite: { repo: 'owner/repo', env: { PORT: 3000 } },
+		})
+		assert.throws(
+			() => loadManifest(root),
+			/suites\.suite\.env\.PORT must be string/,
+		)
+	})
+})
+
+describe('manifest knownFailures', () => {
+	it('accepts knownFailures with testReports', () => {
+		const root = createRoot('known-failures', {
+			suite: {
+				repo: 'owner/repo',
+				testReports: 'test-results.json',
+				knownFailures: ['math > adds'],
+			},
+		})
+		assert.doesNotThrow(() => loadManifest(root))
+	})
+
+	it('rejects knownFailures without testReports', () => {
+		const root = createRoot('known-failures-without-reports', {
+			suite: { repo: 'owner/repo', knownFailures: ['math > adds'] },
+		})
+		assert.throws(
+			() => loadManifest(root),
+			/\/suites\/suite\/knownFailures: requires testReports/,
+		)
+	})
+})
+
+describe('getDependencyOverrides', () => {
+	const suites = {
+		headless: { repo: 'owner/headless' },
+		styled: { repo: 'owner/styled', dependsOnSuites: ['headless'] },
+	}
+
+	it('notes dependencies that are not cloned yet in a plan', () => {
+		const root = createRoot('uncloned', suites)
+		const workspace = path.join(root, 'workspace')
+		const plan = createSuitePlan('styled')
+		const definition = getSuiteDefinition(root, 'styled')!
+		assert.deepEqual(
+			getDependencyOverrides(root, workspace, definition, plan),
+			{},
+		)
+		assert.deepEqual(plan.notes, [
+			`headless is not cloned yet, its packages are resolved after clone and overridden with ${path.join(workspace, 'headless', 'headless')}`,
+		])
+	})
+
+	it('overrides the packages of cloned dependencies', () => {
+		const root = createRoot('cloned', suites)
+		const workspace = path.join(root, 'workspace')
+		const checkout = path.join(workspace, 'headless', 'headless')
+		fs.mkdirSync(checkout, { recursive: true })
+		fs.writeFileSync(
+			path.join(checkout, 'package.json'),
+			JSON.stringify({ name: '@owner/headless' }),
+		)
+		const plan = createSuitePlan('styled')
+		const definition = getSuiteDefinition(root, 'styled')!
+		assert.deepEqual(
+			getDependencyOverrides(root, workspace, definition, plan),
+			{ '@owner/headless': checkout },
+		)
+		assert.deepEqual(plan.notes, [])
+	})
+})
@@ -0,0 +1,450 @@
+import fs from 'fs'
+import path from 'path'
+//eslint-disable-next-line n/no-unpublished-import
+import { detect } from '@antfu/ni'
+import type {
+	ManifestSuite,
+	SuiteDefinition,
+	SuiteEnv,
+	SuiteInfo,
+	SuiteManifest,
+	SuitePlan,
+} from './types.d.ts'
+
+const MANIFEST_FILE = 'suites.json'
+const SCHEMA_FILE = 'suites.schema.json'
+const WORKFLOW_FILES = [
+	'.github/workflows/ecosystem-ci.yml',
+	'.github/workflows/ecosystem-ci-selected.yml',
+]
+// marks the suite lists in workflows that sync-workflows writes
+const WORKFLOW_MARKER =
+	'# generated list of suites, update with `pnpm sync-workflows`'
+
+const TASK_PHASES = [
+	'beforeInstall',
+	'beforeBuild',
+	'build',
+	'beforeTest',
+	'test',
+] as const
+
+type Schema = { [key: string]: any }
+
+const manifests = new Map<string, SuiteManifest>()
+
+/**
+ * read suites.json and validate it against suites.schema.json
+ */
+export function loadManifest(root: string): SuiteManifest {
+	const loaded = manifests.get(root)
+	if (loaded) {
+		return loaded
+	}
+	const data = readJson(path.join(root, MANIFEST_FILE))
+	const schema = readJson(path.join(root, SCHEMA_FILE))
+	const errors = validate(data, schema, schema, '')
+	if (errors.length === 0) {
+		errors.push(...validateDependencies(data as SuiteManifest))
+		errors.push(...validateKnownFailures(data as SuiteManifest))
+	}
+	if (errors.length > 0) {
+		throw new Error(
+			`invalid ${MANIFEST_FILE}:\n${errors.map((e) => `  ${e}`).join('\n')}`,
+		)
+	}
+	manifests.set(root, data as SuiteManifest)
+	return data as SuiteManifest
+}
+
+/**
+ * @returns a copy of the suite from suites.json, or undefined if it is not declared there.
+ * Env values declared with fromEnv are read from the environment of the run
+ */
+export function getSuiteDefinition(
+	root: string,
+	suite: string,
+): SuiteDefinition | undefined {
+	const declared = loadManifest(root).suites[suite]
+	if (!declared) {
+		return undefined
+	}
+	// copy so that runInRepo can't leak changes like overrides into later runs
+	const { env, ...definition }: ManifestSuite = structuredClone(declared)
+	if (!env) {
+		return definition
+	}
+	const suiteEnv: SuiteEnv = {}
+	for (const [key, value] of Object.entries(env)) {
+		suiteEnv[key] =
+			typeof value === 'string'
+				? value
+				: { value: process.env[value.fromEnv], secret: value.secret }
+	}
+	return { ...definition, env: suiteEnv }
+}
+
+/**
+ * names of all suites, declared in suites.json or implemented in tests/*.ts
+ */
+export function getAvailableSuites(root: string): string[] {
+	const manifestSuites = Object.keys(loadManifest(root).suites)
+	const testsDir = path.join(root, 'tests')
+	const fileSuites = fs.existsSync(testsDir)
+		? fs
+				.readdirSync(testsDir)
+				.filter((f: string) => !f.startsWith('_') && f.endsWith('.ts'))
+				.map((f: string) => f.slice(0, -3))
+		: []
+	const duplicates = fileSuites.filter((s) => manifestSuites.includes(s))
+	if (duplicates.length > 0) {
+		throw new Error(
+			`suite(s) ${duplicates.join(', ')} are declared in ${MANIFEST_FILE} and tests/, remove one of them`,
+		)
+	}
+	return [...manifestSuites, ...fileSuites].sort()
+}
+
+/**
+ * add the suites that selected suites depend on and order them so that every suite runs after its dependencies
+ */
+export function orderSuites(root: string, suites: string[]): string[] {
+	const { suites: definitions } = loadManifest(root)
+	const ordered: string[] = []
+	const visit = (suite: string) => {
+		if (ordered.includes(suite)) {
+			return
+		}
+		for (const dependency of definitions[suite]?.dependsOnSuites ?? []) {
+			visit(dependency)
+		}
+		ordered.push(suite)
+	}
+	suites.forEach(visit)
+	return ordered
+}
+
+/**
+ * directory a suite is checked out to in workspace
+ */
+export function getSuiteCheckout(
+	workspace: string,
+	suite: string,
+	{ repo, dir }: SuiteDefinition,
+) {
+	return path.join(
+		workspace,
+		suite,
+		dir || repo.substring(repo.lastIndexOf('/') + 1),
+	)
+}
+
+/**
+ * packages a suite provides to suites depending on it, mapped to their directory in the checkout.
+ * Defaults to the root package of the checkout
+ */
+export function getSuitePackages(
+	checkout: string,
+	definition: SuiteDefinition,
+): { [name: string]: string } {
+	if (definition.packages) {
+		return definition.packages
+	}
+	const { name } = readJson(path.join(checkout, 'package.json'))
+	return { [name]: '.' }
+}
+
+/**
+ * overrides of a suite with the packages of the suites it depends on, the first dependency providing a package wins.
+ * With plan, dependencies that are not cloned yet are noted instead, without packages their names are only known after clone
+ */
+export function getDependencyOverrides(
+	root: string,
+	workspace: string,
+	definition: SuiteDefinition,
+	plan?: SuitePlan,
+): { [name: string]: string } {
+	const overrides: { [name: string]: string } = {}
+	for (const dependency of definition.dependsOnSuites ?? []) {
+		const dependencyDefinition = getSuiteDefinition(root, dependency)!
+		const checkout = getSuiteCheckout(
+			workspace,
+			dependency,
+			dependencyDefinition,
+		)
+		if (
+			plan &&
+			!dependencyDefinition.packages &&
+			!fs.existsSync(path.join(checkout, 'package.json'))
+		) {
+			plan.notes.push(
+				`${dependency} is not cloned yet, its packages are resolved after clone and overridden with ${checkout}`,
+			)
+			continue
+		}
+		const packages = getSuitePackages(checkout, dependencyDefinition)
+		for (const [name, dir] of Object.entries(packages)) {
+			overrides[name] ??= path.join(checkout, dir)
+		}
+	}
+	return overrides
+}
+
+function validateDependencies({ suites }: SuiteManifest): string[] {
+	const errors: string[] = []
+	const visiting: string[] = []
+	const visited = new Set<string>()
+	const visit = (suite: string) => {
+		if (visiting.includes(suite)) {
+			errors.push(
+				`suites depend on each other: ${[...visiting.slice(visiting.indexOf(suite)), suite].join(' -> ')}`,
+			)
+			return
+		}
+		if (visited.has(suite)) {
+			return
+		}
+		visiting.push(suite)
+		for (const dependency of suites[suite].dependsOnSuites ?? []) {
+			if (suites[dependency]) {
+				visit(dependency)
+			} else {
+				errors.push(
+					`/suites/${suite}/dependsOnSuites: unknown suite ${dependency}`,
+				)
+			}
+		}
+		visiting.pop()
+		visited.add(suite)
+	}
+	Object.keys(suites).forEach(visit)
+	return errors
+}
+
+// without test reports, failures of known failures can't be told apart from others
+function validateKnownFailures({ suites }: SuiteManifest): string[] {
+	return Object.entries(suites)
+		.filter(
+			([, { knownFailures, testReports }]) =>
+				knownFailures?.length && ![testReports ?? []].flat().length,
+		)
+		.map(([suite]) => `/suites/${suite}/knownFailures: requires testReports`)
+}
+
+/**
+ * describe suites for list-suites, the package manager is detected from existing checkouts in workspace
+ */
+export async function describeSuites(
+	root: string,
+	workspace: string,
+	suites: string[],
+): Promise<SuiteInfo[]> {
+	const infos: SuiteInfo[] = []
+	for (const name of suites) {
+		const definition = getSuiteDefinition(root, name)
+		if (!definition) {
+			// custom suites only declare their options when run
+			infos.push({ name, source: `tests/${name}.ts`, tasks: {} })
+			continue
+		}
+		const {
+			repo,
+			branch,
+			branches,
+			tag,
+			commit,
+			agent,
+			qwikMajors,
+			dependsOnSuites,
+			owners,
+		} = definition
+		const tasks: SuiteInfo['tasks'] = {}
+		for (const phase of TASK_PHASES) {
+			const task = definition[phase]
+			if (task != null) {
+				tasks[phase] = task
+			}
+		}
+		const checkout = getSuiteCheckout(workspace, name, definition)
+		infos.push({
+			name,
+			source: MANIFEST_FILE,
+			repo,
+			branch: tag || commit || branch || 'main',
+			branches,
+			tasks,
+			agent:
+				agent ??
+				(fs.existsSync(checkout)
+					? (await detect({ cwd: checkout, autoInstall: false })) ?? undefined
+					: undefined),
+			qwikMajors,
+			dependsOnSuites,
+			owners,
+		})
+	}
+	return infos
+}
+
+/**
+ * write the suite lists of the github workflows
+ *
+ * @param check only compare, don't write
+ * @returns workflow files that were (or with check would be) changed
+ */
+export function syncWorkflows(
+	root: string,
+	suites: string[],
+	check = false,
+): string[] {
+	const changed: string[] = []
+	for (const file of WORKFLOW_FILES) {
+		const workflowFile = path.join(root, file)
+		const content = fs.readFileSync(workflowFile, 'utf-8')
+		const updated = replaceSuiteLists(content, suites)
+		if (updated === undefined) {
+			throw new Error(`${file} has no "${WORKFLOW_MARKER}" comment`)
+		}
+		if (updated !== content) {
+			changed.push(file)
+			if (!check) {
+				fs.writeFileSync(workflowFile, updated, 'utf-8')
+			}
+		}
+	}
+	return changed
+}
+
+function replaceSuiteLists(
+	content: string,
+	suites: string[],
+): string | undefined {
+	const lines = content.split('\n')
+	let found = false
+	for (let i = 0; i < lines.length; i++) {
+		if (lines[i].trim() !== WORKFLOW_MARKER) {
+			continue
+		}
+		found = true
+		const indent = lines[i].slice(0, lines[i].indexOf('#'))
+		let end = i + 1
+		while (end < lines.length && lines[end].startsWith(`${indent}- `)) {
+			end++
+		}
+		lines.splice(
+			i + 1,
+			end - i - 1,
+			...suites.map((suite) => `${indent}- ${suite}`),
+		)
+	}
+	return found ? lines.join('\n') : undefined
+}
+
+function readJson(file: string) {
+	return JSON.parse(fs.readFileSync(file, 'utf-8'))
+}
+
+/**
+ * validate value against the subset of json schema used by suites.schema.json
+ *
+ * @returns error messages, empty if value is valid
+ */
+function validate(
+	value: unknown,
+	schema: Schema,
+	rootSchema: Schema,
+	at: string,
+): string[] {
+	if (schema.$ref) {
+		return validate(value, resolveRef(rootSchema, schema.$ref), rootSchema, at)
+	}
+	const where = at || 'manifest'
+	const types: string[] | undefined = schema.type && [schema.type].flat()
+	if (types && !types.some((type) => isType(value, type))) {
+		return [`${where} must be ${types.join(' or ')}`]
+	}
+	const errors: string[] = []
+	if (schema.enum && !schema.enum.includes(value)) {
+		errors.push(`${where} must be one of ${schema.enum.join(', ')}`)
+	}
+	if (schema.anyOf) {
+		const results = schema.anyOf.map((s: Schema) =>
+			validate(value, s, rootSchema, at),
+		)
+		if (results.every((r: string[]) => r.length > 0)) {
+			errors.push(...results.flat())
+		}
+	}
+	if (schema.oneOf) {
+		const matches = schema.oneOf.filter(
+			(s: Schema) => validate(value, s, rootSchema, at).length === 0,
+		)
+		if (matches.length !== 1) {
+			const alternatives = schema.oneOf
+				.map((s: Schema) => s.required?.join(' and '))
+				.join(' or ')
+			errors.push(`${where} must have exactly one of ${alternatives}`)
+		}
+	}
+	if (typeof value === 'number' && value < schema.minimum) {
+		errors.push(`${where} must be at least ${schema.minimum}`)
+	}
+	if (typeof value === 'string' && schema.pattern) {
+		if (!new RegExp(schema.pattern).test(value)) {
+			errors.push(`${where} must match ${schema.pattern}`)
+		}
+	}
+	if (Array.isArray(value) && schema.items) {
+		value.forEach((item, i) =>
+			errors.push(...validate(item, schema.items, rootSchema, `${at}[${i}]`)),
+		)
+	}
+	if (isType(value, 'object')) {
+		const object = value as { [key: string]: unknown }
+		for (const key of schema.required ?? []) {
+			if (!(key in object)) {
+				errors.push(`${where} is missing ${key}`)
+			}
+		}
+		for (const [key, property] of Object.entries(object)) {
+			const propertyAt = at ? `${at}.${key}` : key
+			const pattern = schema.propertyNames?.pattern
+			if (pattern && !new RegExp(pattern).test(key)) {
+				errors.push(`${propertyAt} is not a valid name, must match ${pattern}`)
+			}
+			const propertySchema =
+				schema.properties?.[key] ??
+				(typeof schema.additionalProperties === 'object'
+					? schema.additionalProperties
+					: undefined)
+			if (propertySchema) {
+				errors.push(
+					...validate(property, propertySchema, rootSchema, propertyAt),
+				)
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${propertyAt} is not an allowed property`)
+			}
+		}
+	}
+	return errors
+}
+
+function resolveRef(rootSchema: Schema, ref: string): Schema {
+	return ref
+		.replace(/^#\//, '')
+		.split('/')
+		.reduce((schema, key) => schema[key], rootSchema)
+}
+
+function isType(value: unknown, type: string) {
+	switch (type) {
+		case 'object':
+			return value != null && typeof value === 'object' && !Array.isArray(value)
+		case 'array':
+			return Array.isArray(value)
+		case 'integer':
+			return Number.isInteger(value)
+		default:
+			return typeof value === type
+	}
+}
@@ -0,0 +1,214 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import path from 'node:path'
+import { before, describe, it } from 'node:test'
+import {
+	createDiscordNotifier,
+	createNotification,
+	createSlackNotifier,
+	notify,
+} from './notify.ts'
+import {
+	createResult,
+	createRunReport,
+	createTempDir,
+	startServer,
+} from './test-utils.ts'
+import type { Notification } from './types.d.ts'
+
+const tmpDir = createTempDir()
+
+const report = createRunReport([
+	createResult('passed', [['test', 'override', 'success']]),
+	createResult(
+		'failed',
+		[
+			['build', 'override', 'success'],
+			['test', 'override', 'failure'],
+		],
+		{ failedPhase: 'test', failedPass: 'override' },
+	),
+])
+
+before(() => {
+	for (const name of [
+		'GITHUB_ACTIONS',
+		'GITHUB_SERVER_URL',
+		'WORKFLOW_NAME',
+		'DISCORD_WEBHOOK_URL',
+		'SLACK_WEBHOOK_URL',
+		'NOTIFY_WEBHOOK_URL',
+	]) {
+		delete process.env[name]
+	}
+})
+
+describe('createNotification', () => {
+	it('describes every suite with the phase it failed in', async () => {
+		const notification = await createNotification(report, {
+			workflow: 'ecosystem-ci',
+		})
+		const discord = createDiscordNotifier('').createBody(notification)
+		assert.deepEqual(discord, {
+			username: 'qwik-ecosystem-ci (ecosystem-ci)',
+			avatar_url: 'https://github.com/QwikDev.png',
+			embeds: [
+				{
+					title: ':x:  1/2 suites passed',
+					description: [
+						'```',
+						'suite  | status  | failed phase    | change',
+						'-------|---------|-----------------|-------',
+						'passed | success |                 |',
+						'failed | failure | test (override) |',
+						'```',
+						':zap:\u00a0\u00a0[main (2222222)](https://github.com/QwikDev/qwik/commits/2222222222222222222222222222222222222222)',
+					].join('\n'),
+					color: parseInt('e5534b', 16),
+				},
+			],
+		})
+		const slack = createSlackNotifier('').createBody(notification) as {
+			text: string
+			blocks: { text: { text: string } }[]
+		}
+		assert.equal(slack.text, ':x: 1/2 suites passed')
+		assert.match(
+			slack.blocks[1].text.text,
+			/:zap:\u00a0\u00a0<https:\/\/github.com\/QwikDev\/qwik\/commits\/2{40}\|main \(2222222\)>$/,
+		)
+	})
+
+	it('counts pre-existing failures separately', async () => {
+		const baseline = createRunReport([
+			createResult('passed', [], { classification: 'pass' }),
+			createResult('failed', [['test', 'override', 'failure']], {
+				classification: 'pre-existing failure',
+			}),
+		])
+		const notification = await createNotification(baseline, {})
+		assert.equal(notification.status, 'success')
+		const { embeds } = createDiscordNotifier('').createBody(notification) as {
+			embeds: { title: string; description: string }[]
+		}
+		assert.equal(
+			embeds[0].title,
+			':white_check_mark:  1/2 suites passed, 1 pre-existing failures',
+		)
+		assert.match(embeds[0].description, /failed +\| pre-existing failure/)
+	})
+
+	it('counts skipped suites separately', async () => {
+		const notification = await createNotification(
+			createRunReport([
+				createResult('passed', []),
+				createResult('skipped', [], { status: 'skipped' }),
+			]),
+			{},
+		)
+		const { text } = createSlackNotifier('').createBody(notification) as {
+			text: string
+		}
+		assert.equal(text, ':white_check_mark: 1/2 suites passed, 1 skipped')
+	})
+})
+
+describe('notify', async () => {
+	const requests: Record<string, number> = {}
+	const bodies: Record<string, Notification> = {}
+	const url = await startServer(async (req, res) => {
+		const count = (requests[req.url!] = (requests[req.url!] ?? 0) + 1)
+		let body = ''
+		for await (const chunk of req) {
+			body += chunk
+		}
+		bodies[req.url!] = JSON.parse(body)
+		res.statusCode =
+			req.url === '/bad' ? 400 : req.url === '/flaky' && count === 1 ? 500 : 200
+		res.end()
+	})
+
+	it('posts the report to the webhook', async () => {
+		await notify(report, { webhook: `${url}/ok` })
+		assert.equal(requests['/ok'], 1)
+	})
+
+	it('retries server errors', async () => {
+		await notify(report, { webhook: `${url}/flaky` })
+		assert.equal(requests['/flaky'], 2)
+	})
+
+	it('fails without retrying client errors', async () => {
+		await assert.rejects(notify(report, { webhook: `${url}/bad` }), {
+			message: 'failed to send webhook notification',
+		})
+		assert.equal(requests['/bad'], 1)
+	})
+
+	it('compares the results with the previous run of the qwik ref', async () => {
+		const history = path.join(tmpDir, 'history.json')
+		await notify(report, { webhook: `${url}/history`, history })
+		assert.equal(bodies['/history'].changes, undefined)
+
+		const next = createRunReport(
+			[
+				createResult('passed', [['test', 'override', 'failure']]),
+				createResult('failed', [['test', 'override', 'success']]),
+			],
+			{ finishedAt: '2024-01-02T00:10:00.000Z' },
+		)
+		next.qwik.sha = '3'.repeat(40)
+		await notify(next, { webhook: `${url}/history`, history })
+		const { changes, suites } = bodies['/history']
+		assert.deepEqual(changes, {
+			text: '2222222...3333333',
+			url: `https://github.com/QwikDev/qwik/compare/${'2'.repeat(40)}...${'3'.repeat(40)}`,
+		})
+		assert.deepEqual(
+			suites.map((suite) => [suite.name, suite.change]),
+			[
+				['passed', 'broken'],
+				['failed', 'recovered'],
+			],
+		)
+
+		await notify(createRunReport([next.suites[0]]), {
+			webhook: `${url}/history`,
+			history,
+		})
+		assert.deepEqual(JSON.parse(fs.readFileSync(history, 'utf-8')), {
+			'QwikDev/qwik#branch:main': {
+				finishedAt: '2024-01-01T00:10:00.000Z',
+				sha: '2'.repeat(40),
+				suites: { passed: 'failure', failed: 'success' },
+			},
+		})
+	})
+
+	it('stores only delivered results in the history', async () => {
+		const history = path.join(tmpDir, 'undelivered.json')
+		await notify(report, { history })
+		await assert.rejects(notify(report, { webhook: `${url}/bad`, history }))
+		assert.equal(fs.existsSync(history), false)
+	})
+
+	it('does not report pre-existing failures as newly broken', async () => {
+		const history = path.join(tmpDir, 'baseline.json')
+		const previous = createRunReport([
+			createResult('passed', [['test', 'override', 'success']]),
+		])
+		await notify(previous, { webhook: `${url}/baseline`, history })
+		const baseline = createRunReport([
+			createResult('passed', [['test', 'override', 'failure']], {
+				classification: 'pre-existing failure',
+			}),
+		])
+		await notify(baseline, { webhook: `${url}/baseline`, history })
+		assert.equal(bodies['/baseline'].suites[0].change, undefined)
+		assert.deepEqual(
+			JSON.parse(fs.readFileSync(history, 'utf-8'))['QwikDev/qwik#branch:main']
+				.suites,
+			{ passed: 'success' },
+		)
+	})
+})
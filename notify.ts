@@ -0,0 +1,492 @@
+import fs from 'fs'
+import path from 'path'
+import fetch from 'node-fetch'
+import { formatTable, isSuiteFailure } from './report.ts'
+import { qwikPackageMaps } from './utils.ts'
+import type {
+	Notification,
+	Notifier,
+	NotifyHistory,
+	NotifyOptions,
+	NotifyRecord,
+	QwikResult,
+	ResultStatus,
+	RunReport,
+	SuiteResult,
+} from './types.d.ts'
+
+const NAME = 'qwik-ecosystem-ci'
+const AVATAR_URL = 'https://github.com/QwikDev.png'
+const QWIK_REPO = 'QwikDev/qwik'
+const MAX_ATTEMPTS = 4
+const RETRY_DELAY = 1000
+const MAX_RETRY_DELAY = 60_000
+
+const PRE_EXISTING_EMOJI = ':warning:'
+
+const statusConfig = {
+	success: {
+		color: parseInt('57ab5a', 16),
+		emoji: ':white_check_mark:',
+	},
+	failure: {
+		color: parseInt('e5534b', 16),
+		emoji: ':x:',
+	},
+	cancelled: {
+		color: parseInt('768390', 16),
+		emoji: ':stop_button:',
+	},
+	skipped: {
+		color: parseInt('768390', 16),
+		emoji: ':fast_forward:',
+	},
+}
+
+export function createDiscordNotifier(url: string): Notifier {
+	return {
+		name: 'discord',
+		url,
+		createBody(notification) {
+			const { status, workflow } = notification
+			const link = (text: string, url?: string) =>
+				url ? `[${text}](${url})` : text
+			return {
+				username: workflow ? `${NAME} (${workflow})` : NAME,
+				avatar_url: AVATAR_URL,
+				embeds: [
+					{
+						title: `${statusConfig[status].emoji}  ${createTitle(notification)}`,
+						description: createDescription(notification, link),
+						color: statusConfig[status].color,
+					},
+				],
+			}
+		},
+	}
+}
+
+export function createSlackNotifier(url: string): Notifier {
+	return {
+		name: 'slack',
+		url,
+		createBody(notification) {
+			const link = (text: string, url?: string) =>
+				url ? `<${url}|${text}>` : text
+			const title = `${statusConfig[notification.status].emoji} ${createTitle(notification)}`
+			return {
+				username: NAME,
+				icon_url: AVATAR_URL,
+				text: title,
+				blocks: [
+					{ type: 'header', text: { type: 'plain_text', text: title } },
+					{
+						type: 'section',
+						text: {
+							type: 'mrkdwn',
+							text: createDescription(notification, link),
+						},
+					},
+				],
+			}
+		},
+	}
+}
+
+/**
+ * posts the notification as is, for services without a dedicated notifier
+ */
+export function createWebhookNotifier(url: string): Notifier {
+	return {
+		name: 'webhook',
+		url,
+		createBody: (notification) => ({ source: NAME, ...notification }),
+	}
+}
+
+/**
+ * notifiers for the webhook urls in options, falling back to environment variables
+ */
+export function getNotifiers(options: NotifyOptions): Notifier[] {
+	const discord = options.discord ?? process.env.DISCORD_WEBHOOK_URL
+	const slack = options.slack ?? process.env.SLACK_WEBHOOK_URL
+	const webhook = options.webhook ?? process.env.NOTIFY_WEBHOOK_URL
+	return [
+		discord && createDiscordNotifier(discord),
+		slack && createSlackNotifier(slack),
+		webhook && createWebhookNotifier(webhook),
+	].filter((notifier): notifier is Notifier => !!notifier)
+}
+
+/**
+ * send the results of a run to all configured notifiers, failed deliveries are retried
+ *
+ * with options.history the results are compared with the previous run of the same qwik ref and stored for the next one,
+ * with options.dryRun the bodies are printed instead and the history is only read
+ */
+export async function notify(report: RunReport, options: NotifyOptions) {
+	const history = options.history ? readHistory(options.history) : {}
+	const key = getHistoryKey(report.qwik)
+	const notification = await createNotification(report, options, history[key])
+	const notifiers = getNotifiers(options)
+	if (options.dryRun) {
+		// webhook urls contain tokens, so only the names are printed
+		for (const notifier of notifiers) {
+			console.log(`${notifier.name} notification:`)
+			console.log(JSON.stringify(notifier.createBody(notification), null, 2))
+		}
+		if (!notifiers.length) {
+			console.log(JSON.stringify(notification, null, 2))
+		}
+		return
+	}
+	if (!notifiers.length) {
+		console.warn(
+			'Skipped because no webhook url was passed or set in DISCORD_WEBHOOK_URL, SLACK_WEBHOOK_URL or NOTIFY_WEBHOOK_URL',
+		)
+		return
+	}
+	const failed: string[] = []
+	for (const notifier of notifiers) {
+		try {
+			await deliver(notifier.url, notifier.createBody(notification))
+			console.log(`Sent ${notifier.name} notification`)
+		} catch (e) {
+			console.error(`${notifier.name} notification failed: ${e.message}`)
+			failed.push(notifier.name)
+		}
+	}
+	if (failed.length) {
+		throw new Error(`failed to send ${failed.join(', ')} notification`)
+	}
+	// only delivered results count as previous run, so undelivered changes are reported by the next one
+	if (options.history) {
+		history[key] = createRecord(report, notification, history[key])
+		writeHistory(options.history, history)
+	}
+}
+
+export async function createNotification(
+	report: RunReport,
+	options: NotifyOptions,
+	previous?: NotifyRecord,
+): Promise<Notification> {
+	const jobs = process.env.GITHUB_ACTIONS ? await fetchJobs() : null
+	return {
+		workflow: options.workflow ?? process.env.WORKFLOW_NAME,
+		status: options.status ?? report.status,
+		target: createTarget(report.qwik),
+		runUrl: createWorkflowRunUrl(),
+		changes: previous && createChanges(report.qwik, previous.sha),
+		previousRunUrl: previous?.runUrl,
+		suites: report.suites.map((result) => ({
+			name: result.suite,
+			status: result.status,
+			failedPhase: result.failedPhase,
+			failedPass: result.failedPass,
+			classification: result.classification,
+			url: jobs ? createRunUrl(jobs, result.suite) : undefined,
+			change: getChange(previous?.suites[result.suite], result),
+		})),
+	}
+}
+
+function readHistory(file: string): NotifyHistory {
+	if (!fs.existsSync(file)) {
+		console.warn(`no previous results found at ${file}`)
+		return {}
+	}
+	return JSON.parse(fs.readFileSync(file, 'utf-8'))
+}
+
+function writeHistory(file: string, history: NotifyHistory) {
+	fs.mkdirSync(path.dirname(file), { recursive: true })
+	fs.writeFileSync(file, JSON.stringify(history, null, 2) + '\n', 'utf-8')
+}
+
+function getHistoryKey(qwik: QwikResult) {
+	return `${qwik.repo ?? QWIK_REPO}#${qwik.refType}:${qwik.ref}`
+}
+
+/**
+ * suites missing in the report keep their previous status, e.g. when their job was cancelled,
+ * and so do suites that also failed without the qwik under test
+ */
+function createRecord(
+	report: RunReport,
+	notification: Notification,
+	previous?: NotifyRecord,
+): NotifyRecord {
+	return {
+		runUrl: notification.runUrl,
+		finishedAt: report.finishedAt,
+		sha: report.qwik.sha,
+		suites: {
+			...previous?.suites,
+			...Object.fromEntries(
+				report.suites
+					.filter((result) => !isPreExistingFailure(result))
+					.map((result) => [result.suite, result.status]),
+			),
+		},
+	}
+}
+
+function getChange(
+	previous: ResultStatus | undefined,
+	result: SuiteResult,
+): Notification['suites'][number]['change'] {
+	if (previous === 'success' && isSuiteFailure(result)) {
+		return 'broken'
+	}
+	if (previous === 'failure' && result.status === 'success') {
+		return 'recovered'
+	}
+	return undefined
+}
+
+function createChanges(
+	qwik: QwikResult,
+	previousSha?: string,
+): Notification['changes'] {
+	if (!previousSha || !qwik.sha) {
+		return undefined
+	}
+	if (previousSha === qwik.sha) {
+		return { text: 'no qwik changes since the previous run' }
+	}
+	return {
+		text: `${previousSha.slice(0, 7)}...${qwik.sha.slice(0, 7)}`,
+		url: `https://github.com/${qwik.repo ?? QWIK_REPO}/compare/${previousSha}...${qwik.sha}`,
+	}
+}
+
+function createTitle({ suites }: Notification) {
+	if (suites.length === 1) {
+		return suites[0].name
+	}
+	const preExisting = suites.filter(isPreExistingFailure).length
+	const skipped = suites.filter((suite) => suite.status === 'skipped').length
+	const passed =
+		suites.filter((suite) => !isSuiteFailure(suite)).length -
+		preExisting -
+		skipped
+	return (
+		`${passed}/${suites.length} suites passed` +
+		(preExisting ? `, ${preExisting} pre-existing failures` : '') +
+		(skipped ? `, ${skipped} skipped` : '')
+	)
+}
+
+/**
+ * failures the suite also had without the qwik under test, they don't fail the run
+ */
+function isPreExistingFailure(
+	suite: Pick<SuiteResult, 'status' | 'classification'>,
+) {
+	return suite.status === 'failure' && !isSuiteFailure(suite)
+}
+
+/**
+ * a single suite gets one line, more suites a table followed by their changes and jobs
+ */
+function createDescription(
+	notification: Notification,
+	link: (text: string, url?: string) => string,
+) {
+	const { target, runUrl, changes, previousRunUrl, suites } = notification
+	const failedIn = (suite: Notification['suites'][number]) =>
+		suite.failedPhase ? `${suite.failedPhase} (${suite.failedPass})` : ''
+	const lines: string[] = []
+	if (suites.length === 1) {
+		const [suite] = suites
+		const failed = suite.failedPhase ? ` failed in ${failedIn(suite)}` : ''
+		const emoji = isPreExistingFailure(suite)
+			? PRE_EXISTING_EMOJI
+			: statusConfig[suite.status].emoji
+		const preExisting = isPreExistingFailure(suite)
+			? ', also without the qwik under test'
+			: ''
+		lines.push(
+			`${emoji}\u00a0\u00a0${link(suite.name, suite.url)}${failed}${preExisting}`,
+		)
+	} else if (suites.length) {
+		const rows = suites.map((suite) => [
+			suite.name,
+			isPreExistingFailure(suite) ? 'pre-existing failure' : suite.status,
+			failedIn(suite),
+			suite.change === 'broken'
+				? 'newly broken'
+				: suite.change === 'recovered'
+					? 'recovered'
+					: '',
+		])
+		lines.push(
+			'```',
+			...formatTable(['suite', 'status', 'failed phase', 'change'], rows),
+			'```',
+		)
+	}
+	const linkSuites = (list: Notification['suites']) =>
+		list.map((suite) => link(suite.name, suite.url)).join(', ')
+	const broken = suites.filter((suite) => suite.change === 'broken')
+	if (broken.length) {
+		lines.push(`:x:\u00a0\u00a0newly broken: ${linkSuites(broken)}`)
+	}
+	const recovered = suites.filter((suite) => suite.change === 'recovered')
+	if (recovered.length) {
+		lines.push(
+			`:white_check_mark:\u00a0\u00a0recovered: ${linkSuites(recovered)}`,
+		)
+	}
+	if (suites.length > 1 && suites.some((suite) => suite.url)) {
+		lines.push(`:link:\u00a0\u00a0jobs: ${linkSuites(suites)}`)
+	}
+	const open = runUrl
+		? `:scroll:\u00a0\u00a0${link('Open', runUrl)}\u3000\u3000`
+		: ''
+	lines.push(`${open}:zap:\u00a0\u00a0${link(target.text, target.url)}`)
+	if (changes) {
+		const previous = previousRunUrl
+			? ` since the ${link('previous run', previousRunUrl)}`
+			: ''
+		lines.push(
+			`:arrows_counterclockwise:\u00a0\u00a0${link(changes.text, changes.url)}${previous}`,
+		)
+	}
+	return lines.join('\n')
+}
+
+function createTarget(qwik: QwikResult): Notification['target'] {
+	const repo = qwik.repo ?? QWIK_REPO
+	const repoText = repo !== QWIK_REPO ? `${repo}:` : ''
+	const ref = qwik.ref ?? 'unknown'
+	if (qwik.refType === 'local') {
+		return { text: `local ${ref}${qwik.dirty ? ' (with changes)' : ''}` }
+	}
+	if (qwik.refType === 'release') {
+		const core =
+			Object.values(qwikPackageMaps)
+				.map((map) => map.core)
+				.find((name) => qwik.releases?.[name]) ?? qwikPackageMaps[1].core
+		return {
+			text: `${ref} (release)`,
+			url: `https://www.npmjs.com/package/${core}/v/${qwik.releases?.[core] ?? ref}`,
+		}
+	}
+	if (qwik.refType === 'branch') {
+		const shortRef = qwik.sha?.slice(0, 7)
+		return {
+			text: `${repoText}${ref} (${shortRef || 'unknown'})`,
+			url: `https://github.com/${repo}/commits/${qwik.sha || ref}`,
+		}
+	}
+	return {
+		text: `${repoText}${ref}`,
+		url: `https://github.com/${repo}/commits/${ref}`,
+	}
+}
+
+export function createWorkflowRunUrl() {
+	const { GITHUB_SERVER_URL, GITHUB_REPOSITORY, GITHUB_RUN_ID } = process.env
+	if (!GITHUB_SERVER_URL || !GITHUB_REPOSITORY || !GITHUB_RUN_ID) {
+		return undefined
+	}
+	return `${GITHUB_SERVER_URL}/${GITHUB_REPOSITORY}/actions/runs/${GITHUB_RUN_ID}`
+}
+
+interface GitHubActionsJob {
+	name: string
+	html_url: string
+}
+
+interface GitHubActionsJobs {
+	total_count: number
+	jobs: GitHubActionsJob[]
+}
+
+function createRunUrl(result: GitHubActionsJobs, suite: string) {
+	if (result.total_count <= 0) {
+		console.warn('total_count was 0')
+		return undefined
+	}
+
+	// when matrix, also when notifying from a separate job after the matrix
+	const jobM = result.jobs.find((job) => job.name.endsWith(` (${suite})`))
+	if (jobM) {
+		return jobM.html_url
+	}
+
+	const job = result.jobs.find((job) => job.name === process.env.GITHUB_JOB)
+	return job?.html_url
+}
+
+async function fetchJobs() {
+	if (!process.env.GITHUB_TOKEN) {
+		console.warn(
+			"Not using a token because process.env.GITHUB_TOKEN was empty or didn't exist",
+		)
+	}
+	const url = `${process.env.GITHUB_API_URL}/repos/${process.env.GITHUB_REPOSITORY}/actions/runs/${process.env.GITHUB_RUN_ID}/jobs?per_page=100`
+	const res = await fetch(url, {
+		headers: {
+			Accept: 'application/vnd.github.v3+json',
+			...(process.env.GITHUB_TOKEN
+				? { Authorization: `token ${process.env.GITHUB_TOKEN}` }
+				: undefined),
+		},
+	})
+	if (!res.ok) {
+		console.warn(
+			`Failed to fetch jobs (${res.status} ${res.statusText}): ${await res.text()}`,
+		)
+		return null
+	}
+	return (await res.json()) as GitHubActionsJobs
+}
+
+/**
+ * post body as json, retrying network errors, rate limits and server errors with backoff
+ */
+async function deliver(url: string, body: unknown) {
+	for (let attempt = 1; ; attempt++) {
+		const { error, retryable, retryAfter } = await post(url, body)
+		if (!error) {
+			return
+		}
+		if (!retryable || attempt >= MAX_ATTEMPTS) {
+			throw new Error(error)
+		}
+		const delay = Math.min(
+			retryAfter ?? RETRY_DELAY * 2 ** (attempt - 1),
+			MAX_RETRY_DELAY,
+		)
+		console.warn(`${error}, retrying in ${delay}ms`)
+		await new Promise((resolve) => setTimeout(resolve, delay))
+	}
+}
+
+async function post(
+	url: string,
+	body: unknown,
+): Promise<{ error?: string; retryable?: boolean; retryAfter?: number }> {
+	let res
+	try {
+		res = await fetch(url, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+		})
+	} catch (e) {
+		return { error: e.message, retryable: true }
+	}
+	if (res.ok) {
+		return {}
+	}
+	const retryAfter = Number(res.headers.get('retry-after'))
+	return {
+		error: `${res.status} ${res.statusText}: ${await res.text()}`,
+		retryable: res.status === 429 || res.status >= 500,
+		retryAfter: retryAfter > 0 ? retryAfter * 1000 : undefined,
+	}
+}
@@ -0,0 +1,110 @@
+import { createReport, formatTable } from './report.ts'
+import type {
+	CommandOptions,
+	PhasePlan,
+	RunPlan,
+	SuitePlan,
+} from './types.d.ts'
+
+/**
+ * plan of a command with --dry-run, the qwik ref is described like in the report of a run
+ */
+export function createPlan(
+	command: string,
+	options: CommandOptions,
+	releases?: { [name: string]: string },
+): RunPlan {
+	const { repo, refType, ref } = createReport(command, options, releases).qwik
+	return {
+		command,
+		qwik: { repo, refType, ref, releases, phases: [], notes: [] },
+		suites: [],
+	}
+}
+
+export function createSuitePlan(suite: string): SuitePlan {
+	return { suite, phases: [], notes: [] }
+}
+
+export function printPlan(plan: RunPlan, json = false) {
+	if (json) {
+		console.log(JSON.stringify(plan, null, 2))
+		return
+	}
+	const { qwik } = plan
+	const lines = [
+		`${plan.command} --dry-run, nothing is cloned, installed, built or run`,
+		'',
+		`qwik ${qwik.refType} ${qwik.ref}${qwik.repo ? ` of ${qwik.repo}` : ''}`,
+		...formatFields([
+			[
+				'sha',
+				qwik.sha && `${qwik.sha}${qwik.dirty ? ' with local changes' : ''}`,
+			],
+			['major', qwik.major != null ? `${qwik.major}` : undefined],
+		]),
+		...formatReleases(qwik.releases),
+		...formatNotes(qwik.notes),
+		...formatPhases(qwik.phases),
+	]
+	for (const suite of plan.suites) {
+		lines.push(
+			'',
+			suite.suite,
+			...formatFields([
+				['repo', suite.repo && `${suite.repo}#${suite.branch}`],
+				['commit', suite.commit],
+				['dir', suite.dir],
+				['agent', suite.agent],
+				['skipped', suite.skipped],
+			]),
+			...formatNotes(suite.notes),
+			...formatOverrides(suite.overrides),
+			...formatPhases(suite.phases),
+		)
+	}
+	console.log(lines.join('\n'))
+}
+
+function formatFields(fields: [string, string | undefined][]) {
+	return fields
+		.filter(([, value]) => value)
+		.map(([label, value]) => `  ${`${label}:`.padEnd(9)}${value}`)
+}
+
+function formatNotes(notes: string[]) {
+	return notes.map((note) => `  note: ${note}`)
+}
+
+function formatReleases(releases: { [name: string]: string } | undefined) {
+	if (!releases) {
+		return []
+	}
+	return [
+		'  releases:',
+		...formatTable(['package', 'release'], Object.entries(releases)).map(
+			(line) => `    ${line}`,
+		),
+	]
+}
+
+function formatOverrides(overrides: { [name: string]: string } | undefined) {
+	if (!overrides || !Object.keys(overrides).length) {
+		return []
+	}
+	return [
+		'  overrides:',
+		...formatTable(['package', 'override'], Object.entries(overrides)).map(
+			(line) => `    ${line}`,
+		),
+	]
+}
+
+function formatPhases(phases: PhasePlan[]) {
+	return phases.flatMap((phase) => [
+		`  ${phase.name} (${phase.pass})`,
+		...(phase.commands.length
+			? phase.commands.map((command) => `    $ ${command}`)
+			: ['    nothing to run']),
+	])
+}
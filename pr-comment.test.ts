@@ -0,0 +1,249 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { handlePrComment, parsePrCommand, postPrResults } from './pr-comment.ts'
+import { createResult, createRunReport } from './test-utils.ts'
+import type { GitHubClient, PrCommentEvent } from './types.d.ts'
+
+type Request = [method: string, path: string, body?: unknown]
+
+/**
+ * client answering `METHOD path` from responses, errors are thrown
+ */
+function createClient(responses: { [request: string]: unknown }) {
+	const requests: Request[] = []
+	const client: GitHubClient = {
+		async request(method, path, body) {
+			requests.push(body === undefined ? [method, path] : [method, path, body])
+			const response = responses[`${method} ${path}`]
+			if (response instanceof Error) {
+				throw response
+			}
+			return response as any
+		},
+	}
+	return { client, requests }
+}
+
+function createEvent(body: string): PrCommentEvent {
+	return {
+		repository: { full_name: 'QwikDev/qwik' },
+		issue: { number: 42, pull_request: {} },
+		comment: { id: 1, body, user: { login: 'octocat' } },
+	}
+}
+
+const options = {
+	ciRepo: 'QwikDev/qwik-ecosystem-ci',
+	ciRef: 'main',
+	availableSuites: ['qwik-ui', 'qwikcity-e2e'],
+}
+
+before(() => {
+	delete process.env.GITHUB_SERVER_URL
+})
+
+describe('parsePrCommand', () => {
+	it('parses suites and flags', () => {
+		assert.deepEqual(
+			parsePrCommand(
+				'looks good\n /ecosystem-ci run qwik-ui --baseline qwik-ui qwikcity-e2e\nthanks',
+			),
+			{ suites: ['qwik-ui', 'qwikcity-e2e'], verify: false, baseline: true },
+		)
+		assert.deepEqual(parsePrCommand('/ecosystem-ci run --verify'), {
+			suites: [],
+			verify: true,
+			baseline: false,
+		})
+	})
+
+	it('ignores comments without the command', () => {
+		assert.equal(parsePrCommand('please /ecosystem-ci run'), undefined)
+		assert.equal(parsePrCommand('/ecosystem-ci running'), undefined)
+	})
+
+	it('rejects unknown flags', () => {
+		assert.throws(() => parsePrCommand('/ecosystem-ci run --all'), {
+			message:
+				'unknown flag `--all`, supported flags are `--verify`, `--baseline`',
+		})
+	})
+})
+
+describe('handlePrComment', () => {
+	const permission = 'GET /repos/QwikDev/qwik/collaborators/octocat/permission'
+	const pull = {
+		head: { sha: 'abc123', repo: { full_name: 'octocat/qwik' } },
+	}
+
+	it('dispatches a run for the head of the pull request', async () => {
+		const { client, requests } = createClient({
+			[permission]: { role_name: 'triage', permission: 'read' },
+			'GET /repos/QwikDev/qwik/pulls/42': pull,
+			'POST /repos/QwikDev/qwik/issues/42/comments': { id: 7 },
+		})
+		await handlePrComment(
+			client,
+			createEvent('/ecosystem-ci run qwik-ui --verify'),
+			options,
+		)
+		assert.deepEqual(requests.slice(2), [
+			[
+				'POST',
+				'/repos/QwikDev/qwik/issues/42/comments',
+				{
+					body: '<!-- ecosystem-ci results -->\n:hourglass: ecosystem-ci is running qwik-ui for octocat/qwik@abc123',
+				},
+			],
+			[
+				'POST',
+				'/repos/QwikDev/qwik-ecosystem-ci/actions/workflows/ecosystem-ci-from-pr.yml/dispatches',
+				{
+					ref: 'main',
+					inputs: {
+						prRepo: 'QwikDev/qwik',
+						prNumber: '42',
+						repo: 'octocat/qwik',
+						commit: 'abc123',
+						suites: 'qwik-ui',
+						verify: 'true',
+						baseline: 'false',
+						commentId: '7',
+					},
+				},
+			],
+		])
+	})
+
+	it('checks the role before the permission of the commenter', async () => {
+		for (const [response, allowed] of [
+			[{ role_name: 'triage', permission: 'read' }, true],
+			[{ role_name: 'read', permission: 'write' }, false],
+			[{ permission: 'write' }, true],
+			[{ permission: 'read' }, false],
+		] as const) {
+			const { client, requests } = createClient({
+				[permission]: response,
+				'GET /repos/QwikDev/qwik/pulls/42': pull,
+				'POST /repos/QwikDev/qwik/issues/42/comments': { id: 7 },
+			})
+			await handlePrComment(client, createEvent('/ecosystem-ci run'), options)
+			assert.equal(
+				requests.some(([, path]) => path.endsWith('/dispatches')),
+				allowed,
+				JSON.stringify(response),
+			)
+			if (!allowed) {
+				assert.deepEqual(requests[1], [
+					'POST',
+					'/repos/QwikDev/qwik/issues/42/comments',
+					{
+						body: '@octocat only users with triage permission to QwikDev/qwik can trigger ecosystem-ci runs',
+					},
+				])
+			}
+		}
+	})
+
+	it('replies to unknown suites', async () => {
+		const { client, requests } = createClient({
+			[permission]: { permission: 'admin' },
+		})
+		await handlePrComment(
+			client,
+			createEvent('/ecosystem-ci run qwik-ui other'),
+			options,
+		)
+		assert.deepEqual(requests[1], [
+			'POST',
+			'/repos/QwikDev/qwik/issues/42/comments',
+			{
+				body: '@octocat unknown suite(s) `other`, available suites are `qwik-ui`, `qwikcity-e2e`',
+			},
+		])
+	})
+})
+
+describe('postPrResults', () => {
+	const report = createRunReport([
+		createResult('qwik-ui', [['test', 'override', 'success']]),
+	])
+	const comment = 'PATCH /repos/QwikDev/qwik/issues/comments/7'
+
+	it('updates the comment of the run', async () => {
+		const { client, requests } = createClient({})
+		await postPrResults(client, report, {
+			repo: 'QwikDev/qwik',
+			pr: 42,
+			commentId: 7,
+		})
+		assert.deepEqual(
+			requests.map(([method, path]) => `${method} ${path}`),
+			[comment],
+		)
+		assert.match(
+			(requests[0][2] as { body: string }).body,
+			/^<!-- ecosystem-ci results -->\n:white_check_mark: ecosystem-ci passed for QwikDev\/qwik@2{40}, 1\/1 suites passed\./,
+		)
+	})
+
+	it('names the ref of qwik when it failed before resolving the sha', async () => {
+		const { client, requests } = createClient({})
+		const failed = createRunReport([], { status: 'failure' })
+		delete failed.qwik.sha
+		await postPrResults(client, failed, { repo: 'QwikDev/qwik', pr: 42 })
+		assert.match(
+			(requests[0][2] as { body: string }).body,
+			/^<!-- ecosystem-ci results -->\n:x: ecosystem-ci failed for QwikDev\/qwik@main, 0\/0 suites passed\./,
+		)
+	})
+
+	it('counts skipped suites separately', async () => {
+		const { client, requests } = createClient({})
+		await postPrResults(
+			client,
+			createRunReport([
+				...report.suites,
+				createResult('skipped', [], { status: 'skipped' }),
+			]),
+			{ repo: 'QwikDev/qwik', pr: 42 },
+		)
+		assert.match(
+			(requests[0][2] as { body: string }).body,
+			/, 1\/2 suites passed, 1 skipped\./,
+		)
+	})
+
+	it('posts a new comment if the comment was deleted', async () => {
+		const { client, requests } = createClient({
+			[comment]: Object.assign(new Error('not found'), { status: 404 }),
+		})
+		await postPrResults(client, undefined, {
+			repo: 'QwikDev/qwik',
+			pr: 42,
+			commentId: 7,
+		})
+		assert.deepEqual(requests[1], [
+			'POST',
+			'/repos/QwikDev/qwik/issues/42/comments',
+			{
+				body: '<!-- ecosystem-ci results -->\n:x: ecosystem-ci failed before running the suites.',
+			},
+		])
+	})
+
+	it('throws other errors', async () => {
+		const { client, requests } = createClient({
+			[comment]: Object.assign(new Error('forbidden'), { status: 403 }),
+		})
+		await assert.rejects(
+			postPrResults(client, report, {
+				repo: 'QwikDev/qwik',
+				pr: 42,
+				commentId: 7,
+			}),
+			{ message: 'forbidden' },
+		)
+		assert.equal(requests.length, 1)
+	})
+})
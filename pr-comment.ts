@@ -0,0 +1,239 @@
+import { formatTable, isSuiteFailure } from './report.ts'
+import { createWorkflowRunUrl } from './notify.ts'
+import type {
+	GitHubClient,
+	PrCommand,
+	PrCommentEvent,
+	RunReport,
+} from './types.d.ts'
+
+const COMMAND = '/ecosystem-ci run'
+const RESULTS_MARKER = '<!-- ecosystem-ci results -->'
+const WORKFLOW = 'ecosystem-ci-from-pr.yml'
+const FLAGS: { [flag: string]: keyof Omit<PrCommand, 'suites'> } = {
+	'--verify': 'verify',
+	'--baseline': 'baseline',
+}
+/** roles allowed to trigger runs, triage and above */
+const ALLOWED_ROLES = ['triage', 'write', 'maintain', 'admin']
+
+/**
+ * parse the first line of a comment starting with `/ecosystem-ci run`
+ *
+ * @returns undefined if the comment has no command, throws for unknown flags
+ */
+export function parsePrCommand(body: string): PrCommand | undefined {
+	const line = body
+		.split('\n')
+		.map((l) => l.trim())
+		.find((l) => l === COMMAND || l.startsWith(`${COMMAND} `))
+	if (line == null) {
+		return undefined
+	}
+	const command: PrCommand = { suites: [], verify: false, baseline: false }
+	for (const arg of line.slice(COMMAND.length).split(/\s+/).filter(Boolean)) {
+		if (arg.startsWith('-')) {
+			const flag = FLAGS[arg]
+			if (!flag) {
+				throw new Error(
+					`unknown flag \`${arg}\`, supported flags are ${Object.keys(FLAGS)
+						.map((f) => `\`${f}\``)
+						.join(', ')}`,
+				)
+			}
+			command[flag] = true
+		} else if (!command.suites.includes(arg)) {
+			command.suites.push(arg)
+		}
+	}
+	return command
+}
+
+/**
+ * handle an issue_comment event: check the commenter may trigger runs, then dispatch
+ * a run for the head of the pull request and post a comment the run updates with its results
+ *
+ * @param options.availableSuites suites the command may select
+ */
+export async function handlePrComment(
+	client: GitHubClient,
+	event: PrCommentEvent,
+	options: { ciRepo: string; ciRef: string; availableSuites: string[] },
+) {
+	const repo = event.repository.full_name
+	const pr = event.issue.number
+	const user = event.comment.user.login
+	if (!event.issue.pull_request) {
+		console.log(`#${pr} is not a pull request`)
+		return
+	}
+	const reply = (body: string) =>
+		client.request<{ id: number }>(
+			'POST',
+			`/repos/${repo}/issues/${pr}/comments`,
+			{ body },
+		)
+
+	let command: PrCommand | undefined
+	let parseError: Error | undefined
+	try {
+		command = parsePrCommand(event.comment.body)
+	} catch (e) {
+		parseError = e
+	}
+	if (!command && !parseError) {
+		console.log('comment has no ecosystem-ci command')
+		return
+	}
+
+	const { role_name, permission } = await client.request<{
+		role_name?: string
+		permission: string
+	}>('GET', `/repos/${repo}/collaborators/${user}/permission`)
+	if (!ALLOWED_ROLES.includes(role_name ?? permission)) {
+		console.log(`${user} has ${role_name ?? permission} permission on ${repo}`)
+		await reply(
+			`@${user} only users with triage permission to ${repo} can trigger ecosystem-ci runs`,
+		)
+		return
+	}
+	if (parseError || !command) {
+		await reply(`@${user} ${parseError?.message}`)
+		return
+	}
+
+	const invalidSuites = command.suites.filter(
+		(suite) => !options.availableSuites.includes(suite),
+	)
+	if (invalidSuites.length) {
+		await reply(
+			`@${user} unknown suite(s) ${invalidSuites.map((s) => `\`${s}\``).join(', ')}, available suites are ${options.availableSuites.map((s) => `\`${s}\``).join(', ')}`,
+		)
+		return
+	}
+
+	const pull = await client.request<{
+		head: { sha: string; repo: { full_name: string } | null }
+	}>('GET', `/repos/${repo}/pulls/${pr}`)
+	if (!pull.head.repo) {
+		await reply(`@${user} the head repository of this pull request was deleted`)
+		return
+	}
+	const headRepo = pull.head.repo.full_name
+	const sha = pull.head.sha
+	const suites = command.suites.length
+		? command.suites.join(', ')
+		: 'all suites'
+	const comment = await reply(
+		`${RESULTS_MARKER}\n:hourglass: ecosystem-ci is running ${suites} for ${headRepo}@${sha}`,
+	)
+	try {
+		await client.request(
+			'POST',
+			`/repos/${options.ciRepo}/actions/workflows/${WORKFLOW}/dispatches`,
+			{
+				ref: options.ciRef,
+				inputs: {
+					prRepo: repo,
+					prNumber: `${pr}`,
+					repo: headRepo,
+					commit: sha,
+					suites: command.suites.join(' '),
+					verify: `${command.verify}`,
+					baseline: `${command.baseline}`,
+					commentId: `${comment.id}`,
+				},
+			},
+		)
+	} catch (e) {
+		await updateComment(
+			client,
+			repo,
+			pr,
+			comment.id,
+			`${RESULTS_MARKER}\n:x: failed to start ecosystem-ci: ${e.message}`,
+		)
+		throw e
+	}
+	console.log(
+		`dispatched ${WORKFLOW} in ${options.ciRepo} for ${headRepo}@${sha}`,
+	)
+}
+
+/**
+ * update the comment created by handlePrComment with the results of the run,
+ * a new comment is posted if it was deleted
+ *
+ * @param report undefined if the run failed before writing a report
+ */
+export async function postPrResults(
+	client: GitHubClient,
+	report: RunReport | undefined,
+	options: { repo: string; pr: number; commentId?: number },
+) {
+	const body = [RESULTS_MARKER, ...formatResults(report)].join('\n')
+	await updateComment(client, options.repo, options.pr, options.commentId, body)
+	console.log(`posted results to ${options.repo}#${options.pr}`)
+}
+
+async function updateComment(
+	client: GitHubClient,
+	repo: string,
+	pr: number,
+	commentId: number | undefined,
+	body: string,
+) {
+	if (commentId) {
+		try {
+			await client.request(
+				'PATCH',
+				`/repos/${repo}/issues/comments/${commentId}`,
+				{ body },
+			)
+			return
+		} catch (e) {
+			if (e.status !== 404) {
+				throw e
+			}
+		}
+	}
+	await client.request('POST', `/repos/${repo}/issues/${pr}/comments`, {
+		body,
+	})
+}
+
+function formatResults(report: RunReport | undefined): string[] {
+	const runUrl = createWorkflowRunUrl()
+	const run = runUrl ? ` [Open run](${runUrl})` : ''
+	if (!report) {
+		return [`:x: ecosystem-ci failed before running the suites.${run}`]
+	}
+	const { repo = 'QwikDev/qwik', sha, ref } = report.qwik
+	// sha is unset when qwik failed to clone
+	const version = sha ?? ref
+	const target = version ? `${repo}@${version}` : repo
+	const failed = report.suites.filter(isSuiteFailure).length
+	const skipped = report.suites.filter((s) => s.status === 'skipped').length
+	const passed = report.suites.length - failed - skipped
+	const status = report.status === 'success' ? ':white_check_mark:' : ':x:'
+	const baseline = report.suites.some((s) => s.classification)
+	const rows = report.suites.map((s) => [
+		s.suite,
+		s.status,
+		...(baseline ? [s.classification ?? ''] : []),
+		s.failedPhase ? `${s.failedPhase} (${s.failedPass})` : '',
+	])
+	const header = [
+		'suite',
+		'status',
+		...(baseline ? ['classification'] : []),
+		'failed phase',
+	]
+	return [
+		`${status} ecosystem-ci ${report.status === 'success' ? 'passed' : 'failed'} for ${target}, ${passed}/${report.suites.length} suites passed${skipped ? `, ${skipped} skipped` : ''}.${run}`,
+		'',
+		'```',
+		...formatTable(header, rows),
+		'```',
+	]
+}
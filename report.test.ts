@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+	classifySuiteResult,
+	finishSuiteResult,
+	isSuiteFailure,
+	printSummary,
+} from './report.ts'
+import { createResult, createRunReport } from './test-utils.ts'
+
+describe('classifySuiteResult', () => {
+	it('classifies a suite failing the same phase in both passes as pre-existing failure', () => {
+		const result = createResult('suite', [
+			['install', 'verify', 'success'],
+			['test', 'verify', 'failure'],
+			['install', 'override', 'success'],
+			['test', 'override', 'failure'],
+		])
+		result.classification = classifySuiteResult(result)
+		assert.equal(result.classification, 'pre-existing failure')
+		assert.equal(isSuiteFailure(result), false)
+	})
+
+	it('classifies a failure in an earlier phase than the verify pass as regression', () => {
+		const result = createResult('suite', [
+			['install', 'verify', 'success'],
+			['test', 'verify', 'failure'],
+			['install', 'override', 'failure'],
+		])
+		result.classification = classifySuiteResult(result)
+		assert.equal(result.classification, 'regression')
+		assert.equal(isSuiteFailure(result), true)
+	})
+
+	it('classifies failures only in one pass', () => {
+		const regression = createResult('suite', [
+			['test', 'verify', 'success'],
+			['test', 'override', 'failure'],
+		])
+		regression.classification = classifySuiteResult(regression)
+		assert.equal(regression.classification, 'regression')
+		assert.equal(isSuiteFailure(regression), true)
+		assert.equal(
+			classifySuiteResult(
+				createResult('suite', [
+					['test', 'verify', 'failure'],
+					['test', 'override', 'success'],
+				]),
+			),
+			'fixed',
+		)
+	})
+
+	it('classifies suites passing both passes as pass', () => {
+		assert.equal(
+			classifySuiteResult(
+				createResult('suite', [
+					['test', 'verify', 'success'],
+					['test', 'override', 'success'],
+				]),
+			),
+			'pass',
+		)
+	})
+
+	it('does not classify suites that did not run both passes', () => {
+		assert.equal(
+			classifySuiteResult(
+				createResult('suite', [['clone', 'setup', 'failure']]),
+			),
+			undefined,
+		)
+	})
+})
+
+describe('finishSuiteResult', () => {
+	it('reports where the override pass failed in baseline mode', () => {
+		const result = createResult('suite', [
+			['test', 'verify', 'failure'],
+			['build', 'override', 'failure'],
+		])
+		finishSuiteResult(result, Date.now(), new Error('build failed'), true)
+		assert.equal(result.classification, 'regression')
+		assert.equal(result.failedPhase, 'build')
+		assert.equal(result.failedPass, 'override')
+		assert.equal(result.error, 'build failed')
+	})
+})
+
+describe('printSummary', () => {
+	it('counts skipped suites separately', (t) => {
+		const log = t.mock.method(console, 'log', () => {})
+		printSummary(
+			createRunReport([
+				createResult('passed', [['test', 'override', 'success']]),
+				createResult('failed', [['test', 'override', 'failure']]),
+				createResult('skipped', [], { status: 'skipped' }),
+			]),
+		)
+		assert.match(
+			log.mock.calls[0].arguments[0],
+			/\n1 passed, 1 failed, 1 skipped$/,
+		)
+	})
+})
@@ -0,0 +1,276 @@
+import fs from 'fs'
+import path from 'path'
+import type {
+	Classification,
+	CommandOptions,
+	Pass,
+	PhaseName,
+	PhaseResult,
+	QwikResult,
+	RunReport,
+	SuiteResult,
+} from './types.d.ts'
+import { writeJUnitReports } from './junit.ts'
+
+export function createReport(
+	command: string,
+	options: CommandOptions,
+	releases?: { [name: string]: string },
+): RunReport {
+	const qwik: QwikResult = { repo: options.repo, phases: [] }
+	if (releases) {
+		qwik.refType = 'release'
+		qwik.ref = options.release
+		qwik.releases = releases
+	} else if (options.qwikPath) {
+		qwik.refType = 'local'
+		qwik.ref = options.qwikPath
+		delete qwik.repo
+	} else if (options.commit) {
+		qwik.refType = 'commit'
+		qwik.ref = options.commit
+	} else if (options.tag) {
+		qwik.refType = 'tag'
+		qwik.ref = options.tag
+	} else {
+		qwik.refType = 'branch'
+		qwik.ref = options.branch
+	}
+	return {
+		command,
+		startedAt: new Date().toISOString(),
+		status: 'success',
+		qwik,
+		suites: [],
+	}
+}
+
+export function createSuiteResult(suite: string): SuiteResult {
+	return { suite, status: 'success', duration: 0, phases: [] }
+}
+
+/**
+ * run fn and record its outcome as a phase, errors are rethrown after recording
+ */
+export async function runPhase<T>(
+	phases: PhaseResult[],
+	name: PhaseName,
+	pass: Pass,
+	fn: (phase: PhaseResult) => Promise<T>,
+): Promise<T> {
+	const start = Date.now()
+	const phase: PhaseResult = { name, pass, status: 'success', duration: 0 }
+	phases.push(phase)
+	try {
+		return await fn(phase)
+	} catch (e) {
+		phase.status = 'failure'
+		phase.exitCode = getExitCode(e)
+		phase.error = getErrorMessage(e)
+		throw e
+	} finally {
+		phase.duration = Date.now() - start
+	}
+}
+
+/**
+ * update status, failure location and duration of a suite after it ran
+ */
+export function finishSuiteResult(
+	result: SuiteResult,
+	start: number,
+	error?: unknown,
+	baseline = false,
+) {
+	result.duration = Date.now() - start
+	if (baseline) {
+		result.classification = classifySuiteResult(result)
+	}
+	if (error == null) {
+		return
+	}
+	result.status = 'failure'
+	result.error = getErrorMessage(error)
+	const failures = result.phases.filter((p) => p.status === 'failure')
+	// in baseline mode the verify pass runs first, but the override pass decides the classification
+	const failedPhase = failures.find((p) => p.pass === 'override') ?? failures[0]
+	if (failedPhase) {
+		result.failedPhase = failedPhase.name
+		result.failedPass = failedPhase.pass
+	}
+}
+
+const PHASE_ORDER: PhaseName[] = [
+	'clone',
+	'pack',
+	'beforeInstall',
+	'install',
+	'beforeBuild',
+	'build',
+	'beforeTest',
+	'test',
+]
+
+/**
+ * compare the verify pass with the override pass to tell qwik regressions apart from failures the suite already had
+ */
+export function classifySuiteResult(
+	result: SuiteResult,
+): Classification | undefined {
+	const failedIn = (pass: Pass) =>
+		result.phases.find((p) => p.pass === pass && p.status === 'failure')
+	const ranIn = (pass: Pass) => result.phases.some((p) => p.pass === pass)
+	if (!ranIn('verify') || !ranIn('override')) {
+		// setup failed, nothing to compare
+		return undefined
+	}
+	const verifyFailure = failedIn('verify')
+	const overrideFailure = failedIn('override')
+	if (!overrideFailure) {
+		return verifyFailure ? 'fixed' : 'pass'
+	}
+	// failing earlier than the verify pass, e.g. installing the overridden qwik, is a regression the verify pass can't show
+	return verifyFailure &&
+		PHASE_ORDER.indexOf(overrideFailure.name) >=
+			PHASE_ORDER.indexOf(verifyFailure.name)
+		? 'pre-existing failure'
+		: 'regression'
+}
+
+/**
+ * whether a suite counts as failed, failures it already had without the qwik under test don't
+ */
+export function isSuiteFailure(
+	result: Pick<SuiteResult, 'status' | 'classification'>,
+) {
+	return (
+		result.status === 'failure' &&
+		result.classification !== 'pre-existing failure'
+	)
+}
+
+/**
+ * run fn and write the report to file and junit reports next to it afterwards, even when fn throws
+ */
+export async function withReport(
+	report: RunReport,
+	file: string,
+	fn: () => Promise<void>,
+) {
+	let error: unknown
+	try {
+		await fn()
+	} catch (e) {
+		error = e
+		throw e
+	} finally {
+		report.finishedAt = new Date().toISOString()
+		const failed =
+			error != null ||
+			report.qwik.phases.some((p) => p.status === 'failure') ||
+			report.suites.some(isSuiteFailure)
+		report.status = failed ? 'failure' : 'success'
+		writeReport(file, report)
+		writeJUnitReports(path.dirname(file), report)
+	}
+}
+
+/**
+ * combine the reports of jobs that ran suites of the same workflow run separately
+ */
+export function mergeReports(reports: RunReport[]): RunReport {
+	if (!reports.length) {
+		throw new Error('no reports to merge')
+	}
+	const [first] = reports
+	const finished = reports
+		.map((report) => report.finishedAt)
+		.filter((date): date is string => !!date)
+	return {
+		command: first.command,
+		startedAt: reports.map((report) => report.startedAt).sort()[0],
+		finishedAt: finished.sort().at(-1),
+		status: reports.some((report) => report.status === 'failure')
+			? 'failure'
+			: 'success',
+		qwik: {
+			...first.qwik,
+			phases: reports.flatMap((report) => report.qwik.phases),
+		},
+		suites: reports.flatMap((report) => report.suites),
+	}
+}
+
+export function writeReport(file: string, report: RunReport) {
+	fs.mkdirSync(path.dirname(file), { recursive: true })
+	fs.writeFileSync(file, JSON.stringify(report, null, 2) + '\n', 'utf-8')
+	console.log(`wrote report to ${file}`)
+}
+
+export function printSummary(report: RunReport) {
+	const baseline = report.suites.some((s) => s.classification)
+	const rows = report.suites.map((s) => [
+		s.suite,
+		s.status,
+		...(baseline ? [s.classification ?? ''] : []),
+		s.failedPhase ? `${s.failedPhase} (${s.failedPass})` : '',
+		formatDuration(s.duration),
+	])
+	const header = [
+		'suite',
+		'status',
+		...(baseline ? ['classification'] : []),
+		'failed phase',
+		'duration',
+	]
+	const failed = report.suites.filter(isSuiteFailure).length
+	const preExisting = report.suites.filter(
+		(s) => s.classification === 'pre-existing failure',
+	).length
+	const skipped = report.suites.filter((s) => s.status === 'skipped').length
+	const passed = report.suites.length - failed - preExisting - skipped
+	console.log(
+		[
+			'',
+			...formatTable(header, rows),
+			'',
+			`${passed} passed, ${failed} failed` +
+				(baseline ? `, ${preExisting} pre-existing failures` : '') +
+				(skipped ? `, ${skipped} skipped` : ''),
+		].join('\n'),
+	)
+}
+
+/**
+ * lines of a plain text table with columns padded to the widest cell
+ */
+export function formatTable(header: string[], rows: string[][]): string[] {
+	const widths = header.map((h, i) =>
+		Math.max(h.length, ...rows.map((row) => row[i].length)),
+	)
+	const formatRow = (row: string[]) =>
+		row
+			.map((cell, i) => cell.padEnd(widths[i]))
+			.join(' | ')
+			.trimEnd()
+	return [
+		formatRow(header),
+		widths.map((w) => '-'.repeat(w)).join('-|-'),
+		...rows.map(formatRow),
+	]
+}
+
+function formatDuration(ms: number) {
+	const seconds = Math.round(ms / 1000)
+	return seconds < 60
+		? `${seconds}s`
+		: `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function getExitCode(e: any): number | undefined {
+	return typeof e?.exitCode === 'number' ? e.exitCode : undefined
+}
+
+function getErrorMessage(e: any): string {
+	return e instanceof Error ? e.message : `${e}`
+}
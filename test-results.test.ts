@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import path from 'node:path'
+import { describe, it } from 'node:test'
+import { parseTestReport, summarizeTestReports } from './test-results.ts'
+import { createTempDir } from './test-utils.ts'
+
+const tmpDir = createTempDir()
+
+function writeReport(name: string, content: unknown) {
+	const file = path.join(tmpDir, name)
+	fs.writeFileSync(
+		file,
+		typeof content === 'string' ? content : JSON.stringify(content),
+	)
+	return file
+}
+
+describe('parseTestReport', () => {
+	it('reads vitest json with nested describe blocks', () => {
+		const file = writeReport('vitest.json', {
+			testResults: [
+				{
+					assertionResults: [
+						{
+							ancestorTitles: ['math', 'add'],
+							title: 'adds',
+							status: 'passed',
+						},
+						{ ancestorTitles: ['math'], title: 'divides', status: 'failed' },
+						{ ancestorTitles: [], title: 'todo', status: 'todo' },
+						{ ancestorTitles: ['', 'math'], title: 'skips', status: 'pending' },
+					],
+				},
+				{},
+			],
+		})
+		assert.deepEqual(parseTestReport(file), [
+			{ name: 'math > add > adds', status: 'passed' },
+			{ name: 'math > divides', status: 'failed' },
+			{ name: 'todo', status: 'skipped' },
+			{ name: 'math > skips', status: 'skipped' },
+		])
+	})
+
+	it('reads playwright json without the file suites in the names', () => {
+		const file = writeReport('playwright.json', {
+			suites: [
+				{
+					title: 'home.spec.ts',
+					specs: [
+						{ title: 'loads', tests: [{ status: 'expected' }] },
+						{ title: 'flaky', tests: [{ status: 'flaky' }] },
+					],
+					suites: [
+						{
+							title: 'menu',
+							specs: [
+								{
+									title: 'opens',
+									tests: [{ status: 'expected' }, { status: 'unexpected' }],
+								},
+								{ title: 'closes', tests: [{ status: 'skipped' }] },
+							],
+						},
+					],
+				},
+			],
+		})
+		assert.deepEqual(parseTestReport(file), [
+			{ name: 'loads', status: 'passed' },
+			{ name: 'flaky', status: 'passed' },
+			{ name: 'menu > opens', status: 'failed' },
+			{ name: 'menu > closes', status: 'skipped' },
+		])
+	})
+
+	it('reads junit xml of any runner', () => {
+		const file = writeReport(
+			'junit.xml',
+			`<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+<testsuite name="home.spec.ts">
+<testcase classname="home" name="menu › opens" time="0.1">
+<failure message="expected">stack</failure>
+</testcase>
+<testcase classname="home" name="menu › closes"><skipped/></testcase>
+<testcase classname="home" name="escapes &lt;div&gt; &amp; &quot;quotes&quot;"/>
+<testcase classname="home" name="errors"><error message="oops"/></testcase>
+</testsuite>
+</testsuites>`,
+		)
+		assert.deepEqual(parseTestReport(file), [
+			{ name: 'menu > opens', status: 'failed' },
+			{ name: 'menu > closes', status: 'skipped' },
+			{ name: 'escapes <div> & "quotes"', status: 'passed' },
+			{ name: 'errors', status: 'failed' },
+		])
+	})
+
+	it('throws for malformed and unknown reports', () => {
+		assert.throws(
+			() => parseTestReport(writeReport('truncated.json', '{"testResults": [')),
+			/invalid test report .*truncated\.json: /,
+		)
+		assert.throws(
+			() => parseTestReport(writeReport('unknown.json', { results: [] })),
+			/unknown test report format/,
+		)
+	})
+})
+
+describe('summarizeTestReports', () => {
+	it('separates known failures from other failures', () => {
+		writeReport('summary.json', {
+			testResults: [
+				{
+					assertionResults: [
+						{ ancestorTitles: ['math'], title: 'adds', status: 'failed' },
+						{ ancestorTitles: ['math'], title: 'divides', status: 'failed' },
+						{ ancestorTitles: ['math'], title: 'rounds', status: 'passed' },
+						{ ancestorTitles: ['math'], title: 'floors', status: 'passed' },
+					],
+				},
+			],
+		})
+		assert.deepEqual(
+			summarizeTestReports(
+				tmpDir,
+				['summary.json', 'missing.json'],
+				['math > adds', 'math > rounds'],
+			),
+			{
+				reports: ['summary.json'],
+				passed: 2,
+				failed: ['math > divides'],
+				knownFailures: ['math > adds'],
+				fixed: ['math > rounds'],
+			},
+		)
+	})
+
+	it('returns undefined without reports', () => {
+		assert.equal(summarizeTestReports(tmpDir, ['missing.json']), undefined)
+	})
+})
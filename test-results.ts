@@ -0,0 +1,148 @@
+import fs from 'fs'
+import path from 'path'
+import type { TestSummary } from './types.d.ts'
+
+interface TestCase {
+	/** describe blocks and test title joined with ` > ` */
+	name: string
+	status: 'passed' | 'failed' | 'skipped'
+}
+
+/**
+ * read the test results the test task wrote and compare the failures with the known failures of the suite
+ *
+ * @param dir checkout of the suite, report files are relative to it
+ * @returns undefined if none of the report files exist
+ */
+export function summarizeTestReports(
+	dir: string,
+	reports: string[],
+	knownFailures: string[] = [],
+): TestSummary | undefined {
+	const files = reports
+		.map((report) => path.resolve(dir, report))
+		.filter((file) => fs.existsSync(file))
+	if (!files.length) {
+		return undefined
+	}
+	const tests = files.flatMap(parseTestReport)
+	const isKnownFailure = (test: TestCase) => knownFailures.includes(test.name)
+	return {
+		reports: files.map((file) => path.relative(dir, file)),
+		passed: tests.filter((test) => test.status === 'passed').length,
+		failed: tests
+			.filter((test) => test.status === 'failed' && !isKnownFailure(test))
+			.map((test) => test.name),
+		knownFailures: tests
+			.filter((test) => test.status === 'failed' && isKnownFailure(test))
+			.map((test) => test.name),
+		fixed: tests
+			.filter((test) => test.status === 'passed' && isKnownFailure(test))
+			.map((test) => test.name),
+	}
+}
+
+/**
+ * remove reports of an earlier run so they can't be mistaken for the results of the next one
+ */
+export function removeTestReports(dir: string, reports: string[]) {
+	for (const report of reports) {
+		fs.rmSync(path.resolve(dir, report), { force: true })
+	}
+}
+
+/**
+ * parse vitest or playwright json reports and junit xml reports of any runner
+ */
+export function parseTestReport(file: string): TestCase[] {
+	const content = fs.readFileSync(file, 'utf-8')
+	if (file.endsWith('.xml')) {
+		return parseJUnit(content)
+	}
+	let report
+	try {
+		report = JSON.parse(content)
+	} catch (e) {
+		throw new Error(`invalid test report ${file}: ${e.message}`)
+	}
+	if (Array.isArray(report.testResults)) {
+		return parseVitestJson(report)
+	}
+	if (Array.isArray(report.suites)) {
+		return parsePlaywrightJson(report)
+	}
+	throw new Error(`unknown test report format in ${file}`)
+}
+
+function joinTitles(titles: string[]) {
+	return titles.filter(Boolean).join(' > ')
+}
+
+/**
+ * vitest writes the jest compatible format with `--reporter=json`
+ */
+function parseVitestJson(report: any): TestCase[] {
+	return report.testResults.flatMap((file: any) =>
+		(file.assertionResults ?? []).map((test: any) => ({
+			name: joinTitles([...(test.ancestorTitles ?? []), test.title]),
+			status:
+				test.status === 'passed' || test.status === 'failed'
+					? test.status
+					: 'skipped',
+		})),
+	)
+}
+
+/**
+ * the top level suites of playwright are files, their title is not part of the test name
+ */
+function parsePlaywrightJson(report: any): TestCase[] {
+	const tests: TestCase[] = []
+	const visit = (suite: any, titles: string[]) => {
+		for (const spec of suite.specs ?? []) {
+			const statuses: string[] = (spec.tests ?? []).map((t: any) => t.status)
+			tests.push({
+				name: joinTitles([...titles, spec.title]),
+				status: statuses.includes('unexpected')
+					? 'failed'
+					: statuses.every((status) => status === 'skipped')
+						? 'skipped'
+						: 'passed',
+			})
+		}
+		for (const child of suite.suites ?? []) {
+			visit(child, [...titles, child.title])
+		}
+	}
+	for (const fileSuite of report.suites) {
+		visit(fileSuite, [])
+	}
+	return tests
+}
+
+function parseJUnit(xml: string): TestCase[] {
+	const tests: TestCase[] = []
+	const testcase = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g
+	for (const [, attributes, body = ''] of xml.matchAll(testcase)) {
+		const name = decodeXml(/\bname="([^"]*)"/.exec(attributes)?.[1] ?? '')
+		tests.push({
+			// playwright separates describe blocks with ›
+			name: name.replace(/ › /g, ' > '),
+			status: /<(?:failure|error)\b/.test(body)
+				? 'failed'
+				: /<skipped\b/.test(body)
+					? 'skipped'
+					: 'passed',
+		})
+	}
+	return tests
+}
+
+function decodeXml(text: string) {
+	return text
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, '&')
+}
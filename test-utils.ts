@@ -0,0 +1,103 @@
+import fs from 'node:fs'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import os from 'node:os'
+import path from 'node:path'
+import { after } from 'node:test'
+import { isSuiteFailure } from './report.ts'
+import { runInContext } from './utils.ts'
+import type {
+	Pass,
+	PhaseName,
+	ResultStatus,
+	RunReport,
+	SuiteResult,
+} from './types.d.ts'
+
+/**
+ * temporary directory that is removed after the tests of the file
+ */
+export function createTempDir(): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ecosystem-ci-test-'))
+	after(() => fs.rmSync(dir, { recursive: true, force: true }))
+	return dir
+}
+
+/**
+ * result of a suite that ran phases, it failed if one of them failed
+ */
+export function createResult(
+	suite: string,
+	phases: [PhaseName, Pass, ResultStatus][] = [],
+	result: Partial<SuiteResult> = {},
+): SuiteResult {
+	return {
+		suite,
+		status: phases.some(([, , status]) => status === 'failure')
+			? 'failure'
+			: 'success',
+		duration: 0,
+		phases: phases.map(([name, pass, status]) => ({
+			name,
+			pass,
+			status,
+			duration: 0,
+		})),
+		...result,
+	}
+}
+
+/**
+ * report of a run of qwik main, it failed if one of the suites failed
+ */
+export function createRunReport(
+	suites: SuiteResult[],
+	report: Partial<RunReport> = {},
+): RunReport {
+	return {
+		command: 'run-suites',
+		startedAt: '2024-01-01T00:00:00.000Z',
+		finishedAt: '2024-01-01T00:10:00.000Z',
+		status: suites.some(isSuiteFailure) ? 'failure' : 'success',
+		qwik: {
+			repo: 'QwikDev/qwik',
+			refType: 'branch',
+			ref: 'main',
+			sha: '2'.repeat(40),
+			phases: [],
+		},
+		suites,
+		...report,
+	}
+}
+
+/**
+ * run fn in a context that buffers the output of log instead of printing it
+ */
+export function runInTestContext<T>(fn: () => Promise<T>): Promise<T> {
+	return runInContext(
+		{
+			name: 'test',
+			cwd: process.cwd(),
+			env: {},
+			secrets: [],
+			qwikPath: '',
+			output: [],
+		},
+		fn,
+	)
+}
+
+/**
+ * local http server, e.g. standing in for the npm registry, closed after the tests of the file
+ *
+ * @returns url of the server
+ */
+export async function startServer(
+	handler: http.RequestListener,
+): Promise<string> {
+	const server = http.createServer(handler)
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+	after(() => server.close())
+	return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
@@ -8,23 +8,153 @@ export interface EnvironmentData {
 	env: ProcessEnv
 }
 
+export interface ExecutionContext {
+	name: string
+	cwd: string
+	env: ProcessEnv
+	/** values masked in logs and reports */
+	secrets: string[]
+	qwikPath: string
+	/** buffered output, printed once the context is done */
+	output?: string[]
+	signal?: AbortSignal
+}
+
+export interface ExecOptions {
+	/** relative to the cwd of the context */
+	cwd?: string
+	/** added to the env of the context */
+	env?: { [key: string]: string }
+	/** in ms, the process tree is killed when exceeded */
+	timeout?: number
+	signal?: AbortSignal
+}
+
 export interface RunOptions {
 	workspace: string
 	root: string
 	qwikPath: string
 	qwikMajor: number
 	verify?: boolean
+	/** run verify and override pass and compare them, failures of the verify pass don't stop the suite */
+	baseline?: boolean
 	skipGit?: boolean
 	release?: string
+	releases?: { [name: string]: string }
+	/** packed qwik tarballs to override with instead of the package directories */
+	tarballs?: { [name: string]: string }
 	agent?: Agent
 	build?: Task | Task[]
 	test?: Task | Task[]
 	beforeInstall?: Task | Task[]
 	beforeBuild?: Task | Task[]
 	beforeTest?: Task | Task[]
+	/** extra env variables for all commands of the suite */
+	env?: SuiteEnv
+	/** how to handle installed qwik packages that don't match the override, defaults to error */
+	overrideCheck?: 'error' | 'warn' | 'off'
+	/** vitest or playwright json or junit xml files the test task writes, relative to the checkout */
+	testReports?: string | string[]
+	/** names of tests that are expected to fail, they don't fail the suite */
+	knownFailures?: string[]
+	result?: SuiteResult
+	/** only plan the suite with --dry-run, nothing is cloned, installed or run */
+	plan?: SuitePlan
+}
+
+export interface SuiteEnv {
+	[key: string]: string | { value: string | undefined; secret?: boolean }
+}
+
+export interface TaskOptions {
+	/** in ms, the task fails when exceeded */
+	timeout?: number
+	/** number of times the task is retried when it fails */
+	retries?: number
+	/** record a failure without failing the suite */
+	allowFailure?: boolean
+	/** relative to the repo root, e.g. for a package of a monorepo */
+	cwd?: string
+	env?: { [key: string]: string }
+}
+
+type Task =
+	| string
+	| (TaskOptions & { script: string; args?: string[]; command?: never })
+	| (TaskOptions & { command: string; script?: never })
+	| (() => Promise<any>)
+
+/**
+ * suite declared in suites.json
+ */
+export interface SuiteDefinition {
+	repo: string
+	branch?: string
+	/** branch to use per qwik major, falls back to branch */
+	branches?: { [major: string]: string }
+	tag?: string
+	commit?: string
+	dir?: string
+	agent?: Agent
+	beforeInstall?: Task | Task[]
+	beforeBuild?: Task | Task[]
+	build?: Task | Task[]
+	beforeTest?: Task | Task[]
+	test?: Task | Task[]
+	overrides?: Overrides
+	overrideCheck?: 'error' | 'warn' | 'off'
+	testReports?: string | string[]
+	knownFailures?: string[]
+	/** qwik major versions the suite supports, it is skipped for others */
+	qwikMajors?: number[]
+	/** suites whose built packages this suite is overridden with, they run first */
+	dependsOnSuites?: string[]
+	/** packages provided to dependent suites, mapped to their directory in the checkout */
+	packages?: { [name: string]: string }
+	/** github handles of the maintainers */
+	owners?: string[]
+	/** extra env variables for all commands of the suite */
+	env?: SuiteEnv
 }
 
-type Task = string | { script: string; args?: string[] } | (() => Promise<any>)
+/**
+ * suite as shown by list-suites
+ */
+export interface SuiteInfo {
+	name: string
+	/** suites.json or the tests/*.ts file implementing the suite */
+	source: string
+	repo?: string
+	branch?: string
+	branches?: { [major: string]: string }
+	tasks: { [phase: string]: Task | Task[] }
+	/** declared or detected from an existing checkout */
+	agent?: string
+	qwikMajors?: number[]
+	dependsOnSuites?: string[]
+	owners?: string[]
+}
+
+export interface DoctorCheck {
+	name: string
+	status: 'ok' | 'warn' | 'fail'
+	message: string
+}
+
+/**
+ * env of a suite in suites.json, values can be read from the environment of the run, e.g. for secrets
+ */
+export interface ManifestEnv {
+	[key: string]: string | { fromEnv: string; secret?: boolean }
+}
+
+export interface ManifestSuite extends Omit<SuiteDefinition, 'env'> {
+	env?: ManifestEnv
+}
+
+export interface SuiteManifest {
+	suites: { [name: string]: ManifestSuite }
+}
 
 export interface CommandOptions {
 	suites?: string[]
@@ -33,8 +163,34 @@ export interface CommandOptions {
 	tag?: string
 	commit?: string
 	release?: string
+	releasePackage?: string | string[]
 	verify?: boolean
+	baseline?: boolean
 	skipGit?: boolean
+	continueOnError?: boolean
+	concurrency?: number
+	report?: string
+	qwikPath?: string
+	reuseBuild?: boolean
+	pack?: boolean
+	/** false with --no-build-cache */
+	buildCache?: boolean
+	/** in MB */
+	buildCacheSize?: number
+	/** print the plan instead of running anything */
+	dryRun?: boolean
+	/** print the plan of --dry-run as json */
+	json?: boolean
+}
+
+export interface BisectOptions extends CommandOptions {
+	good: string
+	bad?: string
+	releases?: boolean
+	prereleases?: boolean
+	registry?: string
+	skipCommit?: string | string[]
+	skipPath?: string | string[]
 }
 
 export interface RepoOptions {
@@ -51,13 +207,315 @@ export interface Overrides {
 	[key: string]: string | boolean
 }
 
+export interface BuildCacheOptions {
+	/** directory containing the cache entries */
+	dir: string
+	/** in bytes, least recently used entries are evicted beyond it */
+	maxSize: number
+}
+
+/**
+ * qwik packages of a major version
+ */
+export interface QwikPackageMap {
+	/** name of the core package, its version is the qwik version */
+	core: string
+	/** packages that get overridden in suites, mapped to their location in the qwik monorepo */
+	packages: { [name: string]: string }
+	/** package names of older majors mapped to the package replacing them */
+	aliases?: { [name: string]: string }
+}
+
 export interface ProcessEnv {
 	[key: string]: string | undefined
 }
 
-interface DependencyInfo {
+/**
+ * installed instance of a package in a suite
+ */
+export interface DependencyInfo {
+	/** package depending on it, `.` for the suite itself */
 	from: string
 	version: string
+	/** real path of the installed package */
 	resolved: string
+	/** location relative to the suite checkout */
 	path: string
 }
+
+export interface OverrideCheck {
+	name: string
+	/** version the package was overridden with, unknown for tarball urls */
+	expected?: string
+	/** mismatch fails the suite, duplicate only warns */
+	status: 'ok' | 'unused' | 'duplicate' | 'mismatch'
+	instances: DependencyInfo[]
+}
+
+export type PhaseName =
+	| 'clone'
+	| 'pack'
+	| 'beforeInstall'
+	| 'install'
+	| 'beforeBuild'
+	| 'build'
+	| 'beforeTest'
+	| 'test'
+
+/**
+ * setup runs once, verify runs the suite as published, override runs it with the qwik under test
+ */
+export type Pass = 'setup' | 'verify' | 'override'
+
+export type ResultStatus = 'success' | 'failure' | 'skipped'
+
+export interface PhaseResult {
+	name: PhaseName
+	pass: Pass
+	status: ResultStatus
+	/** duration in ms */
+	duration: number
+	exitCode?: number
+	error?: string
+	tasks?: TaskResult[]
+}
+
+export interface TaskResult {
+	task: string
+	status: ResultStatus
+	attempts: number
+	/** duration in ms, including all attempts */
+	duration: number
+	allowedFailure?: boolean
+}
+
+/**
+ * outcome of the override pass compared to the verify pass
+ */
+export type Classification =
+	| 'regression'
+	| 'pre-existing failure'
+	| 'fixed'
+	| 'pass'
+
+export interface SuiteResult {
+	suite: string
+	repo?: string
+	branch?: string
+	commit?: string
+	/** checkout of the suite */
+	dir?: string
+	status: ResultStatus
+	failedPass?: Pass
+	failedPhase?: PhaseName
+	/** only set in baseline mode */
+	classification?: Classification
+	/** duration in ms */
+	duration: number
+	phases: PhaseResult[]
+	/** installed instances of the overridden qwik packages */
+	overrides?: OverrideCheck[]
+	/** results of the override pass read from the test reports */
+	tests?: TestSummary
+	error?: string
+}
+
+export interface TestSummary {
+	/** report files the results were read from */
+	reports: string[]
+	/** number of passed tests */
+	passed: number
+	/** names of failed tests that are not known failures */
+	failed: string[]
+	/** known failures that failed as expected */
+	knownFailures: string[]
+	/** known failures that passed, they can be removed */
+	fixed: string[]
+}
+
+export interface QwikResult {
+	repo?: string
+	refType?: 'branch' | 'tag' | 'commit' | 'release' | 'local'
+	ref?: string
+	sha?: string
+	/** local checkout had uncommitted changes */
+	dirty?: boolean
+	/** build output was restored from the build cache */
+	buildCached?: boolean
+	releases?: { [name: string]: string }
+	phases: PhaseResult[]
+}
+
+export interface BisectStep {
+	/** tested qwik commit */
+	sha?: string
+	/** tested qwik release when bisecting releases */
+	version?: string
+	result: 'good' | 'bad' | 'skip'
+	/** why the commit was skipped */
+	reason?: string
+	suites: SuiteResult[]
+}
+
+export interface BisectSkipOptions {
+	/** skip commits with a matching subject */
+	commitPatterns?: RegExp[]
+	/** skip commits that only change files matching one of these globs */
+	paths?: string[]
+}
+
+export interface BisectResult {
+	good: string
+	bad?: string
+	/** whether releases instead of commits were bisected */
+	releases?: boolean
+	steps: BisectStep[]
+	/** sha of the first bad commit or version of the first bad release */
+	firstBad?: string
+	lastGood?: string
+}
+
+export interface RunReport {
+	command: string
+	startedAt: string
+	finishedAt?: string
+	status: ResultStatus
+	qwik: QwikResult
+	suites: SuiteResult[]
+	bisect?: BisectResult
+}
+
+export type NotificationStatus = ResultStatus | 'cancelled'
+
+/**
+ * results of a run prepared for notifiers
+ */
+export interface Notification {
+	workflow?: string
+	status: NotificationStatus
+	/** tested qwik version */
+	target: { text: string; url?: string }
+	/** workflow run on github actions */
+	runUrl?: string
+	/** qwik commits since the previous run */
+	changes?: { text: string; url?: string }
+	previousRunUrl?: string
+	suites: {
+		name: string
+		status: ResultStatus
+		failedPass?: Pass
+		failedPhase?: PhaseName
+		/** only set in baseline mode */
+		classification?: Classification
+		/** job of the suite on github actions */
+		url?: string
+		/** status change compared to the previous run */
+		change?: 'broken' | 'recovered'
+	}[]
+}
+
+/**
+ * results of a run stored to compare the next run with
+ */
+export interface NotifyRecord {
+	runUrl?: string
+	finishedAt?: string
+	sha?: string
+	suites: { [suite: string]: ResultStatus }
+}
+
+/**
+ * last run of every qwik ref, keyed by repo and ref
+ */
+export interface NotifyHistory {
+	[target: string]: NotifyRecord
+}
+
+export interface Notifier {
+	name: string
+	/** webhook url the body gets posted to */
+	url: string
+	createBody: (notification: Notification) => unknown
+}
+
+export interface NotifyOptions {
+	/** report files or directories containing them, reports of one workflow run are merged */
+	report?: string | string[]
+	/** file storing the results of previous runs */
+	history?: string
+	/** overrides the status of the report, e.g. with the job status */
+	status?: NotificationStatus
+	workflow?: string
+	discord?: string
+	slack?: string
+	webhook?: string
+	/** print the bodies instead of sending them and don't write the history */
+	dryRun?: boolean
+}
+
+export interface GitHubClient {
+	/** throws for non 2xx responses, the error has the response status */
+	request<T = any>(method: string, path: string, body?: unknown): Promise<T>
+}
+
+/**
+ * parsed `/ecosystem-ci run [...suites] [--verify] [--baseline]` comment
+ */
+export interface PrCommand {
+	/** empty to run all suites */
+	suites: string[]
+	verify: boolean
+	baseline: boolean
+}
+
+/**
+ * the fields of the issue_comment event payload the handler uses
+ */
+export interface PrCommentEvent {
+	repository: { full_name: string }
+	issue: { number: number; pull_request?: unknown }
+	comment: { id: number; body: string; user: { login: string } }
+}
+
+/**
+ * commands a phase would run with --dry-run
+ */
+export interface PhasePlan {
+	name: PhaseName
+	pass: Pass
+	commands: string[]
+}
+
+export interface SuitePlan {
+	suite: string
+	repo?: string
+	branch?: string
+	/** resolved with git ls-remote */
+	commit?: string
+	dir?: string
+	/** package manager, only detected if the suite was cloned before */
+	agent?: string
+	/** overrides written to package.json, in the format of the package manager if it is known */
+	overrides?: { [name: string]: string }
+	phases: PhasePlan[]
+	/** why the suite would be skipped */
+	skipped?: string
+	notes: string[]
+}
+
+export interface RunPlan {
+	command: string
+	qwik: {
+		repo?: string
+		refType?: QwikResult['refType']
+		ref?: string
+		sha?: string
+		/** local checkout has uncommitted changes */
+		dirty?: boolean
+		major?: number
+		releases?: { [name: string]: string }
+		phases: PhasePlan[]
+		notes: string[]
+	}
+	suites: SuitePlan[]
+}
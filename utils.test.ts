@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import path from 'node:path'
+import { after, before, describe, it } from 'node:test'
+// eslint-disable-next-line n/no-unpublished-import
+import * as semver from 'semver'
+import { createSuitePlan } from './plan.ts'
+import { createTempDir, runInTestContext, startServer } from './test-utils.ts'
+import {
+	bisectReleases,
+	createGlobMatcher,
+	getReleaseVersions,
+	runInRepo,
+} from './utils.ts'
+import type { BisectStep, RunOptions } from './types.d.ts'
+
+describe('createGlobMatcher', () => {
+	const matches = (glob: string, file: string) => createGlobMatcher(glob)(file)
+
+	it('matches the basename of files with globs without /', () => {
+		assert.equal(matches('*.md', 'README.md'), true)
+		assert.equal(matches('*.md', 'docs/guide/intro.md'), true)
+		assert.equal(matches('*.md', 'README.mdx'), false)
+		assert.equal(matches('v?.md', 'docs/v1.md'), true)
+	})
+
+	it('does not match across / with *', () => {
+		assert.equal(matches('src/*.ts', 'src/index.ts'), true)
+		assert.equal(matches('src/*.ts', 'src/core/index.ts'), false)
+	})
+
+	it('matches any number of directories with **', () => {
+		assert.equal(matches('docs/**', 'docs/guide/intro.md'), true)
+		assert.equal(matches('docs/**', 'docs-site/index.md'), false)
+		assert.equal(matches('**/*.md', 'README.md'), true)
+		assert.equal(matches('**/*.md', 'docs/guide/intro.md'), true)
+		assert.equal(matches('**/test.ts', 'src/test.ts'), true)
+		assert.equal(matches('**/test.ts', 'src/mytest.ts'), false)
+		assert.equal(matches('src/**/index.ts', 'src/index.ts'), true)
+		assert.equal(matches('src/**/index.ts', 'src/a/b/index.ts'), true)
+		assert.equal(matches('src/**/index.ts', 'src/myindex.ts'), false)
+	})
+
+	it('matches dot files like other files', () => {
+		assert.equal(matches('*.md', '.changeset/brave-cats.md'), true)
+		assert.equal(matches('.github/**', '.github/workflows/ci.yml'), true)
+		assert.equal(matches('*', '.eslintrc.cjs'), true)
+	})
+})
+
+describe('bisectReleases', () => {
+	const versions = ['1.4.1', '1.5.0', '1.5.1', '1.6.0', '1.7.0']
+
+	const bisect = (test: (version: string) => BisectStep['result']) =>
+		runInTestContext(() =>
+			bisectReleases(
+				versions,
+				async (step) => {
+					step.result = test(step.version!)
+				},
+				{ good: '1.4.0', releases: true, steps: [] },
+			),
+		)
+
+	it('finds the first bad release', async () => {
+		const result = await bisect((version) =>
+			semver.gte(version, '1.5.1') ? 'bad' : 'good',
+		)
+		assert.equal(result.firstBad, '1.5.1')
+		assert.equal(result.lastGood, '1.5.0')
+		assert.ok(result.steps.length < versions.length - 1)
+	})
+
+	it('falls back to the good release when all tested releases are bad', async () => {
+		const result = await bisect(() => 'bad')
+		assert.equal(result.firstBad, '1.4.1')
+		assert.equal(result.lastGood, '1.4.0')
+	})
+
+	it('tries the closest release instead of skipped ones', async () => {
+		const result = await bisect((version) =>
+			version === '1.5.0'
+				? 'skip'
+				: semver.gte(version, '1.6.0')
+					? 'bad'
+					: 'good',
+		)
+		assert.equal(result.firstBad, '1.6.0')
+		assert.equal(result.lastGood, '1.5.1')
+		assert.deepEqual(
+			result.steps
+				.filter((step) => step.result === 'skip')
+				.map((step) => step.version),
+			['1.5.0'],
+		)
+	})
+
+	it('leaves the first bad release open when the releases before it were skipped', async () => {
+		const result = await bisect((version) =>
+			version === '1.7.0' ? 'bad' : version === '1.6.0' ? 'skip' : 'good',
+		)
+		assert.equal(result.firstBad, undefined)
+		assert.equal(result.lastGood, '1.5.1')
+	})
+})
+
+describe('getReleaseVersions', async () => {
+	const registry = await startServer((req, res) => {
+		res.setHeader('Content-Type', 'application/json')
+		res.end(
+			JSON.stringify({
+				'dist-tags': { latest: '1.6.0', next: '1.7.0-beta.1' },
+				versions: Object.fromEntries(
+					[
+						'1.3.0',
+						'1.4.0',
+						'1.4.1',
+						'1.5.0-beta.1',
+						'1.5.0',
+						'1.6.0',
+						'1.7.0-beta.1',
+					].map((version) => [version, {}]),
+				),
+			}),
+		)
+	})
+	before(() => {
+		process.env.npm_config_registry = registry
+	})
+	after(() => {
+		delete process.env.npm_config_registry
+	})
+
+	it('lists the releases after good up to bad', async () => {
+		assert.deepEqual(await getReleaseVersions('1.4.0', 'latest'), {
+			good: '1.4.0',
+			versions: ['1.4.1', '1.5.0', '1.6.0'],
+		})
+	})
+
+	it('resolves good releases given as range or with v', async () => {
+		assert.deepEqual(await getReleaseVersions('~1.3', '1.4.1'), {
+			good: '1.3.0',
+			versions: ['1.4.0', '1.4.1'],
+		})
+		assert.deepEqual(await getReleaseVersions('v1.4.0', '1.4.1'), {
+			good: '1.4.0',
+			versions: ['1.4.1'],
+		})
+	})
+
+	it('lists prereleases when asked to and bad prereleases', async () => {
+		assert.deepEqual(
+			(await getReleaseVersions('1.4.1', '1.5.0', true)).versions,
+			['1.5.0-beta.1', '1.5.0'],
+		)
+		assert.deepEqual((await getReleaseVersions('1.5.0', 'next')).versions, [
+			'1.6.0',
+			'1.7.0-beta.1',
+		])
+	})
+
+	it('rejects good releases that are not older than bad', async () => {
+		await assert.rejects(
+			getReleaseVersions('1.6.0', '1.5.0'),
+			/good release 1.6.0 has to be older than bad release 1.5.0/,
+		)
+	})
+})
+
+describe('runInRepo with a plan', () => {
+	const tmpDir = createTempDir()
+	const options: RunOptions = {
+		workspace: tmpDir,
+		root: tmpDir,
+		qwikPath: path.join(tmpDir, 'qwik'),
+		qwikMajor: 1,
+		skipGit: true,
+	}
+	const qwikCore = path.join(tmpDir, 'qwik', 'packages', 'qwik')
+
+	it('lists the overrides with the directory protocol of the package manager', async () => {
+		fs.mkdirSync(path.join(tmpDir, 'berry'))
+		fs.writeFileSync(path.join(tmpDir, 'berry', 'package.json'), '{}')
+		const plan = createSuitePlan('berry')
+		await runInTestContext(() =>
+			runInRepo({ ...options, repo: 'owner/berry', agent: 'yarn@berry', plan }),
+		)
+		assert.equal(plan.agent, 'yarn@berry')
+		assert.equal(plan.overrides?.['@builder.io/qwik'], `portal:${qwikCore}`)
+	})
+
+	it('lists the overrides with file: before the repo is cloned', async () => {
+		const plan = createSuitePlan('uncloned')
+		await runInTestContext(() =>
+			runInRepo({ ...options, repo: 'owner/uncloned', plan }),
+		)
+		assert.equal(plan.agent, undefined)
+		assert.equal(plan.overrides?.['@builder.io/qwik'], `file:${qwikCore}`)
+		assert.ok(
+			plan.notes.includes('yarn berry links local overrides with portal:'),
+		)
+	})
+})
@@ -2,71 +2,466 @@ import path from 'path'
 import fs from 'fs'
 import { fileURLToPath } from 'url'
 import type {
+	BuildCacheOptions,
 	EnvironmentData,
+	ExecutionContext,
+	ExecOptions,
+	SuiteEnv,
+	OverrideCheck,
 	Overrides,
-	ProcessEnv,
+	QwikPackageMap,
 	RepoOptions,
 	RunOptions,
+	BisectResult,
+	BisectStep,
+	BisectSkipOptions,
+	Pass,
+	PhaseName,
+	PhaseResult,
 	Task,
+	TaskOptions,
+	TaskResult,
+	TestSummary,
 } from './types.d.ts'
+import { runPhase } from './report.ts'
+import { checkOverrides } from './dependencies.ts'
+import { restoreQwikBuild, storeQwikBuild } from './build-cache.ts'
+import { removeTestReports, summarizeTestReports } from './test-results.ts'
 //eslint-disable-next-line n/no-unpublished-import
 import { detect, AGENTS, Agent, getCommand } from '@antfu/ni'
 import actionsCore from '@actions/core'
 // eslint-disable-next-line n/no-unpublished-import
 import * as semver from 'semver'
-import { execSync } from 'child_process'
+import { AsyncLocalStorage } from 'async_hooks'
+import { execa } from 'execa'
+import fetch from 'node-fetch'
 
 const isGitHubActions = !!process.env.GITHUB_ACTIONS
+const STDERR_TAIL_LINES = 20
+const FORCE_KILL_DELAY = 5000
 
-let qwikPath: string
-let cwd: string
-let env: ProcessEnv
+const runningSubprocesses = new Set<number>()
+
+// commits that cannot change the outcome of suites, skipped while bisecting
+const NON_CODE_COMMIT_PATTERN = /^(?:release|docs)[:(]/
+
+const NPM_REGISTRY = 'https://registry.npmjs.org'
+
+/**
+ * qwik packages per major version
+ */
+export const qwikPackageMaps: { [major: number]: QwikPackageMap } = {
+	1: {
+		core: '@builder.io/qwik',
+		packages: {
+			'@builder.io/qwik': 'packages/qwik',
+			'@builder.io/qwik-city': 'packages/qwik-city',
+			'eslint-plugin-qwik': 'packages/eslint-plugin-qwik',
+		},
+	},
+	2: {
+		core: '@qwik.dev/core',
+		packages: {
+			'@qwik.dev/core': 'packages/qwik',
+			'@qwik.dev/router': 'packages/qwik-router',
+			'eslint-plugin-qwik': 'packages/eslint-plugin-qwik',
+		},
+		// libraries that still depend on the v1 names have to get qwik 2 too
+		aliases: {
+			'@builder.io/qwik': '@qwik.dev/core',
+			'@builder.io/qwik-city': '@qwik.dev/router',
+		},
+	},
+}
+
+/** used when the major can't be derived from a release, e.g. for dist-tags */
+const DEFAULT_QWIK_MAJOR = 1
+
+export function getQwikPackageMap(major: number): QwikPackageMap {
+	const packageMap = qwikPackageMaps[major]
+	if (!packageMap) {
+		throw new Error(
+			`unsupported qwik major version ${major}, supported are ${Object.keys(qwikPackageMaps).join(', ')}`,
+		)
+	}
+	return packageMap
+}
+
+const contextStorage = new AsyncLocalStorage<ExecutionContext>()
+let rootContext: ExecutionContext
+
+/**
+ * the context of the current suite, or the root context outside of suites
+ */
+function getContext(): ExecutionContext {
+	const context = contextStorage.getStore() ?? rootContext
+	if (!context) {
+		throw new Error('setupEnvironment must be called first')
+	}
+	return context
+}
+
+/**
+ * create a context inheriting cwd and env from the current one
+ *
+ * @param name name of the suite the context is used for
+ * @param options.buffered collect output instead of printing it, use flushContext to print it
+ * @param options.signal cancels all commands run in the context when aborted
+ */
+export function createContext(
+	name: string,
+	{
+		buffered = false,
+		signal,
+	}: { buffered?: boolean; signal?: AbortSignal } = {},
+): ExecutionContext {
+	const { cwd, env, secrets, qwikPath } = getContext()
+	return {
+		name,
+		cwd,
+		env: { ...env },
+		secrets: [...secrets],
+		qwikPath,
+		output: buffered ? [] : undefined,
+		signal,
+	}
+}
+
+/**
+ * add env variables to the current context, values of secret ones are masked in logs and reports
+ */
+export function setEnv(env: SuiteEnv) {
+	const context = getContext()
+	for (const [key, value] of Object.entries(env)) {
+		if (typeof value === 'string') {
+			context.env[key] = value
+		} else if (value?.value != null) {
+			context.env[key] = value.value
+			if (value.secret && value.value !== '') {
+				context.secrets.push(value.value)
+				if (isGitHubActions) {
+					actionsCore.setSecret(value.value)
+				}
+			}
+		}
+	}
+}
+
+/**
+ * replace secret values of the current context with ***
+ */
+export function mask(text: string, context = getContext()): string {
+	let masked = text
+	for (const secret of context.secrets) {
+		masked = masked.split(secret).join('***')
+	}
+	return masked
+}
+
+/**
+ * run fn with context, cd, $ and log calls inside of it only affect that context
+ */
+export function runInContext<T>(
+	context: ExecutionContext,
+	fn: () => Promise<T>,
+): Promise<T> {
+	return contextStorage.run(context, fn)
+}
+
+/**
+ * print buffered output of a context in one block
+ */
+export function flushContext(context: ExecutionContext) {
+	if (!context.output) {
+		return
+	}
+	const output = context.output.join('')
+	context.output = []
+	if (isGitHubActions) {
+		actionsCore.startGroup(context.name)
+	} else {
+		process.stdout.write(`\n----- ${context.name} -----\n`)
+	}
+	process.stdout.write(output)
+	if (isGitHubActions) {
+		actionsCore.endGroup()
+	}
+}
+
+export function log(message: string) {
+	const context = getContext()
+	if (context.output) {
+		context.output.push(`${mask(message, context)}\n`)
+	} else {
+		console.log(mask(message, context))
+	}
+}
 
 function cd(dir: string) {
-	cwd = path.resolve(cwd, dir)
+	const context = getContext()
+	context.cwd = path.resolve(context.cwd, dir)
 }
 
-export async function $(
+/**
+ * error thrown by $ when a command exits with a non-zero code, times out or is cancelled
+ */
+export class CommandError extends Error {
+	command: string
+	cwd: string
+	exitCode?: number
+	stderr: string
+
+	constructor(
+		command: string,
+		cwd: string,
+		exitCode: number | undefined,
+		stderr: string,
+		reason: string,
+	) {
+		const tail = stderr
+			.trimEnd()
+			.split('\n')
+			.slice(-STDERR_TAIL_LINES)
+			.join('\n')
+		super(
+			`Command ${reason}: ${command}\ncwd: ${cwd}${tail ? `\n${tail}` : ''}`,
+		)
+		this.name = 'CommandError'
+		this.command = command
+		this.cwd = cwd
+		this.exitCode = exitCode
+		this.stderr = stderr
+	}
+}
+
+/**
+ * run a shell command in the cwd of the current context, output is streamed and stdout is returned.
+ *
+ * use as tagged template $`cmd`, or $(options)`cmd` to pass a timeout, abort signal or cwd
+ */
+export function $(
 	literals: TemplateStringsArray,
 	...values: any[]
-): Promise<string> {
-	const cmd = literals.reduce(
+): Promise<string>
+export function $(
+	options: ExecOptions,
+): (literals: TemplateStringsArray, ...values: any[]) => Promise<string>
+export function $(
+	literalsOrOptions: TemplateStringsArray | ExecOptions,
+	...values: any[]
+): any {
+	if (!Array.isArray(literalsOrOptions)) {
+		const options = literalsOrOptions as ExecOptions
+		return (literals: TemplateStringsArray, ...values: any[]) =>
+			runCommand(toCommandString(literals, values), options)
+	}
+	return runCommand(
+		toCommandString(literalsOrOptions as TemplateStringsArray, values),
+		{},
+	)
+}
+
+function toCommandString(literals: TemplateStringsArray, values: any[]) {
+	return literals.reduce(
 		(result, current, i) =>
 			result + current + (values?.[i] != null ? `${values[i]}` : ''),
 		'',
 	)
+}
 
-	if (isGitHubActions) {
-		actionsCore.startGroup(`${cwd} $> ${cmd}`)
+async function runCommand(cmd: string, options: ExecOptions): Promise<string> {
+	const context = getContext()
+	const cwd = path.resolve(context.cwd, options.cwd ?? '.')
+
+	// buffered output is grouped per context already
+	const group = isGitHubActions && !context.output
+	if (group) {
+		actionsCore.startGroup(mask(`${cwd} $> ${cmd}`, context))
 	} else {
-		console.log(`${cwd} $> ${cmd}`)
+		log(`${cwd} $> ${cmd}`)
 	}
 
-	const result = execSync(cmd, {
+	const subprocess = execa(cmd, {
+		shell: true,
 		cwd,
-		encoding: 'utf-8',
+		env: options.env ? { ...context.env, ...options.env } : context.env,
+		stdin: 'ignore',
+		// own process group, so the whole tree can be killed on timeout or cancellation
+		detached: process.platform !== 'win32',
 	})
+	const outputs = [
+		createOutputWriter(context, subprocess.stdout, process.stdout),
+		createOutputWriter(context, subprocess.stderr, process.stderr),
+	]
 
-	if (isGitHubActions) {
-		actionsCore.endGroup()
+	const { pid } = subprocess
+	let reason: string | undefined
+	const kill = (why: string) => {
+		reason ??= why
+		if (pid != null) {
+			void killProcessTree(pid)
+		}
+	}
+	const timer = options.timeout
+		? setTimeout(
+				() => kill(`timed out after ${options.timeout}ms`),
+				options.timeout,
+			)
+		: undefined
+	const onAbort = () => kill('was cancelled')
+	const signals = [options.signal, context.signal].filter(
+		(signal): signal is AbortSignal => signal != null,
+	)
+	for (const signal of signals) {
+		if (signal.aborted) {
+			onAbort()
+		} else {
+			signal.addEventListener('abort', onAbort, { once: true })
+		}
+	}
+	if (pid != null) {
+		runningSubprocesses.add(pid)
 	}
 
-	return result
+	try {
+		const { stdout } = await subprocess
+		return stdout
+	} catch (e) {
+		throw new CommandError(
+			mask(cmd, context),
+			cwd,
+			e.exitCode,
+			mask(e.stderr ?? '', context),
+			reason ?? `failed with exit code ${e.exitCode ?? e.signal}`,
+		)
+	} finally {
+		for (const output of outputs) {
+			output.flush()
+		}
+		clearTimeout(timer)
+		for (const signal of signals) {
+			signal.removeEventListener('abort', onAbort)
+		}
+		if (pid != null) {
+			runningSubprocesses.delete(pid)
+		}
+		if (group) {
+			actionsCore.endGroup()
+		}
+	}
+}
+
+/**
+ * forward the output of a subprocess to the context. With secrets it is line buffered, so a secret
+ * split across chunks is masked too, call flush once the subprocess exited
+ */
+function createOutputWriter(
+	context: ExecutionContext,
+	source: NodeJS.ReadableStream | null | undefined,
+	stream: NodeJS.WriteStream,
+) {
+	let pending = ''
+	const write = (text: Buffer | string) => {
+		if (context.output) {
+			context.output.push(text.toString())
+		} else {
+			stream.write(text)
+		}
+	}
+	source?.on('data', (chunk: Buffer) => {
+		if (!context.secrets.length) {
+			write(chunk)
+			return
+		}
+		const text = pending + chunk.toString()
+		const end = text.lastIndexOf('\n') + 1
+		pending = text.slice(end)
+		if (end > 0) {
+			write(mask(text.slice(0, end), context))
+		}
+	})
+	return {
+		flush() {
+			if (pending) {
+				write(mask(pending, context))
+				pending = ''
+			}
+		},
+	}
 }
 
-export async function setupEnvironment(): Promise<EnvironmentData> {
+/**
+ * send SIGTERM to the process group and SIGKILL if it is still running after FORCE_KILL_DELAY
+ *
+ * @returns resolves once the process group exited or was sent SIGKILL
+ */
+async function killProcessTree(pid: number) {
+	if (process.platform === 'win32') {
+		await execa('taskkill', ['/pid', `${pid}`, '/T', '/F']).catch(() => {})
+		return
+	}
+	const kill = (signal: NodeJS.Signals | 0) => {
+		try {
+			process.kill(-pid, signal)
+			return true
+		} catch {
+			// already exited
+			return false
+		}
+	}
+	kill('SIGTERM')
+	const deadline = Date.now() + FORCE_KILL_DELAY
+	while (Date.now() < deadline) {
+		// signal 0 only checks whether a process of the group is left
+		if (!kill(0)) {
+			return
+		}
+		await new Promise((resolve) => setTimeout(resolve, 100))
+	}
+	kill('SIGKILL')
+}
+
+async function killRunningSubprocesses(signal: NodeJS.Signals) {
+	// exiting right away would leave behind detached process groups that ignore SIGTERM
+	await Promise.all([...runningSubprocesses].map(killProcessTree))
+	process.exit(signal === 'SIGINT' ? 130 : 143)
+}
+
+/**
+ * @param options.qwikPath existing qwik checkout to use instead of workspace/qwik
+ * @param options.dryRun don't create the workspace
+ */
+export async function setupEnvironment(
+	options: { qwikPath?: string; dryRun?: boolean } = {},
+): Promise<EnvironmentData> {
 	const root = dirnameFrom(import.meta.url)
 	const workspace = path.resolve(root, 'workspace')
-	qwikPath = path.resolve(workspace, 'qwik')
-	cwd = process.cwd()
-	env = {
+	const qwikPath = options.qwikPath
+		? path.resolve(options.qwikPath)
+		: path.resolve(workspace, 'qwik')
+	if (options.qwikPath) {
+		try {
+			parseQwikMajor(qwikPath)
+		} catch (e) {
+			throw new Error(
+				`--qwik-path ${qwikPath} is not a qwik checkout: ${e.message}`,
+			)
+		}
+	}
+	const cwd = process.cwd()
+	const env = {
 		...process.env,
 		CI: 'true',
 		YARN_ENABLE_IMMUTABLE_INSTALLS: 'false', // to avoid errors with mutated lockfile due to overrides
 		NODE_OPTIONS: '--max-old-space-size=6144', // GITHUB CI has 7GB max, stay below
 		ECOSYSTEM_CI: 'true', // flag for tests, can be used to conditionally skip irrelevant tests.
 	}
-	initWorkspace(workspace)
+	rootContext = { name: 'root', cwd, env, secrets: [], qwikPath }
+	process.once('SIGINT', killRunningSubprocesses)
+	process.once('SIGTERM', killRunningSubprocesses)
+	if (!options.dryRun) {
+		initWorkspace(workspace)
+	}
 	return { root, workspace, qwikPath, cwd, env }
 }
 
@@ -106,7 +501,7 @@ export async function setupRepo(options: RepoOptions) {
 
 	let needClone = true
 	if (fs.existsSync(dir)) {
-		const _cwd = cwd
+		const _cwd = getContext().cwd
 		cd(dir)
 		let currentClonedRepo: string | undefined
 		try {
@@ -146,42 +541,200 @@ export async function setupRepo(options: RepoOptions) {
 	}
 }
 
+/**
+ * the git commands setupRepo runs
+ *
+ * @param cloned whether dir already contains a clone of repo
+ */
+export function describeSetupRepo(options: RepoOptions, cloned: boolean) {
+	const { commit, branch = 'main', tag, dir, shallow = true } = options
+	const repo = options.repo.includes(':')
+		? options.repo
+		: `https://github.com/${options.repo}.git`
+	const ref = tag ? `tags/${tag}` : commit || branch
+	return [
+		...(cloned
+			? []
+			: [
+					`git -c advice.detachedHead=false clone ${shallow ? '--depth=1 --no-tags ' : ''}--branch ${tag || branch} ${repo} ${dir}`,
+				]),
+		'git clean -fdxq',
+		`git fetch ${shallow ? '--depth=1 --no-tags' : '--tags'} origin ${tag ? `tag ${tag}` : commit || branch}`,
+		...(shallow
+			? [`git -c advice.detachedHead=false checkout ${ref}`]
+			: [
+					`git checkout ${branch}`,
+					'git merge FETCH_HEAD',
+					...(tag || commit ? [`git reset --hard ${tag || commit}`] : []),
+				]),
+	]
+}
+
+const LS_REMOTE_TIMEOUT = 30_000
+
+/**
+ * resolve a branch or tag of a remote repository to a commit sha with `git ls-remote`, which doesn't need a clone
+ *
+ * @returns undefined if the ref doesn't exist or the remote can't be reached in time
+ */
+export async function resolveRemoteRef(repo: string, ref: string) {
+	const url = repo.includes(':') ? repo : `https://github.com/${repo}.git`
+	try {
+		const { stdout } = await execa('git', ['ls-remote', url, ref], {
+			timeout: LS_REMOTE_TIMEOUT,
+			// fail instead of asking for credentials of private or mistyped repos
+			env: { GIT_TERMINAL_PROMPT: '0' },
+		})
+		// annotated tags have a peeled entry pointing to the commit
+		const lines = stdout.split('\n').filter(Boolean)
+		const line = lines.find((l) => l.endsWith('^{}')) ?? lines[0]
+		return line?.split('\t')[0]
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * sha of the checked out commit, like getPermanentRef but for any dir and without logging the command
+ */
+export async function getHeadCommit(dir: string) {
+	try {
+		const { stdout } = await execa('git', ['rev-parse', 'HEAD'], { cwd: dir })
+		return stdout.trim()
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * like hasLocalChanges but for any dir and without logging the command
+ */
+export async function hasUncommittedChanges(dir: string) {
+	try {
+		const { stdout } = await execa('git', ['status', '--porcelain'], {
+			cwd: dir,
+		})
+		return stdout.trim().length > 0
+	} catch {
+		return undefined
+	}
+}
+
 function toCommand(
 	task: Task | Task[] | void,
 	agent: Agent,
+	results: TaskResult[] = [],
 ): ((scripts: any) => Promise<any>) | void {
 	return async (scripts: any) => {
 		const tasks = Array.isArray(task) ? task : [task]
 		for (const task of tasks) {
-			if (task == null || task === '') {
+			const resolved = resolveTask(task, agent, scripts)
+			if (!resolved) {
 				continue
-			} else if (typeof task === 'string') {
-				if (scripts[task] != null) {
-					const runTaskWithAgent = getCommand(agent, 'run', [task])
-					await $`${runTaskWithAgent}`
-				} else {
-					await $`${task}`
-				}
-			} else if (typeof task === 'function') {
-				await task()
-			} else if (task?.script) {
-				if (scripts[task.script] != null) {
-					const runTaskWithAgent = getCommand(agent, 'run', [
-						task.script,
-						...(task.args ?? []),
-					])
-					await $`${runTaskWithAgent}`
-				} else {
-					throw new Error(
-						`invalid task, script "${task.script}" does not exist in package.json`,
-					)
+			}
+			const { name, options, command, fn } = resolved
+			await runTask(
+				name,
+				options,
+				results,
+				fn ?? (() => $(options)`${command}`),
+			)
+		}
+	}
+}
+
+interface ResolvedTask {
+	name: string
+	options: TaskOptions
+	/** undefined for function tasks */
+	command?: string
+	fn?: () => Promise<any>
+}
+
+/**
+ * string tasks run the script of the same name with the agent if it exists, otherwise they are a command
+ */
+function resolveTask(
+	task: Task | void,
+	agent: Agent,
+	scripts: any,
+): ResolvedTask | undefined {
+	if (task == null || task === '') {
+		return undefined
+	} else if (typeof task === 'string') {
+		return {
+			name: task,
+			options: {},
+			command: scripts[task] != null ? getCommand(agent, 'run', [task]) : task,
+		}
+	} else if (typeof task === 'function') {
+		return { name: task.name || 'function', options: {}, fn: task }
+	} else if (task?.script) {
+		const taskScripts = task.cwd ? readScripts(task.cwd) : scripts
+		if (taskScripts[task.script] == null) {
+			throw new Error(
+				`invalid task, script "${task.script}" does not exist in ${path.join(task.cwd ?? '', 'package.json')}`,
+			)
+		}
+		return {
+			name: task.script,
+			options: task,
+			command: getCommand(agent, 'run', [task.script, ...(task.args ?? [])]),
+		}
+	} else if (task?.command) {
+		return { name: task.command, options: task, command: task.command }
+	}
+	throw new Error(
+		`invalid task, expected string, function or object with script or command but got ${typeof task}: ${task}`,
+	)
+}
+
+function readScripts(dir: string) {
+	const pkgFile = path.resolve(getContext().cwd, dir, 'package.json')
+	return JSON.parse(fs.readFileSync(pkgFile, 'utf-8')).scripts ?? {}
+}
+
+/**
+ * run a task, retrying it if it fails and it allows retries
+ */
+async function runTask(
+	name: string,
+	{ retries = 0, allowFailure = false }: TaskOptions,
+	results: TaskResult[],
+	fn: () => Promise<any>,
+) {
+	const start = Date.now()
+	const result: TaskResult = {
+		task: name,
+		status: 'success',
+		attempts: 0,
+		duration: 0,
+	}
+	results.push(result)
+	try {
+		for (;;) {
+			result.attempts++
+			try {
+				await fn()
+				return
+			} catch (e) {
+				if (getContext().signal?.aborted || result.attempts > retries) {
+					throw e
 				}
-			} else {
-				throw new Error(
-					`invalid task, expected string or function but got ${typeof task}: ${task}`,
+				log(
+					`task ${name} failed (attempt ${result.attempts} of ${retries + 1}), retrying`,
 				)
 			}
 		}
+	} catch (e) {
+		result.status = 'failure'
+		if (!allowFailure) {
+			throw e
+		}
+		result.allowedFailure = true
+		log(`task ${name} failed but is allowed to fail: ${e.message ?? e}`)
+	} finally {
+		result.duration = Date.now() - start
 	}
 }
 
@@ -215,11 +768,34 @@ export async function runInRepo(options: RunOptions & RepoOptions) {
 		options.dir || repo.substring(repo.lastIndexOf('/') + 1),
 	)
 
+	if (options.plan) {
+		return planInRepo(options, dir)
+	}
+
+	if (options.env) {
+		setEnv(options.env)
+	}
+
+	const phases = options.result?.phases ?? []
+	const phase = <T>(
+		name: PhaseName,
+		pass: Pass,
+		fn: (phase: PhaseResult) => Promise<T>,
+	) => runPhase(phases, name, pass, fn)
+
 	if (!skipGit) {
-		await setupRepo({ repo, dir, branch, tag, commit })
+		await phase('clone', 'setup', () =>
+			setupRepo({ repo, dir, branch, tag, commit }),
+		)
 	} else {
 		cd(dir)
 	}
+	if (options.result) {
+		options.result.repo = repo
+		options.result.branch = tag || branch
+		options.result.commit = (await $`git rev-parse HEAD`).trim()
+		options.result.dir = dir
+	}
 	if (options.agent == null) {
 		const detectedAgent = await detect({ cwd: dir, autoInstall: false })
 		if (detectedAgent == null) {
@@ -236,53 +812,333 @@ export async function runInRepo(options: RunOptions & RepoOptions) {
 	}
 
 	const agent = options.agent
-	const beforeInstallCommand = toCommand(beforeInstall, agent)
-	const beforeBuildCommand = toCommand(beforeBuild, agent)
-	const beforeTestCommand = toCommand(beforeTest, agent)
-	const buildCommand = toCommand(build, agent)
-	const testCommand = toCommand(test, agent)
 
 	const pkgFile = path.join(dir, 'package.json')
 	const pkg = JSON.parse(await fs.promises.readFile(pkgFile, 'utf-8'))
 
-	await beforeInstallCommand?.(pkg.scripts)
+	const runSuiteTask = async (
+		name: PhaseName,
+		pass: Pass,
+		task: Task | Task[] | undefined,
+	) => {
+		if (task == null) {
+			phases.push({ name, pass, status: 'skipped', duration: 0 })
+			return
+		}
+		await phase(name, pass, async (phase) =>
+			toCommand(task, agent, (phase.tasks = []))?.(pkg.scripts),
+		)
+	}
 
-	if (verify && test) {
-		const frozenInstall = getCommand(agent, 'frozen')
-		await $`${frozenInstall}`
-		await beforeBuildCommand?.(pkg.scripts)
-		await buildCommand?.(pkg.scripts)
-		await beforeTestCommand?.(pkg.scripts)
-		await testCommand?.(pkg.scripts)
+	const testReports = [options.testReports ?? []].flat()
+	if (options.knownFailures?.length && !testReports.length) {
+		log('knownFailures are ignored, the suite declares no testReports')
 	}
-	const overrides = options.overrides || {}
-	// TODO
-	if (options.release) {
-		if (overrides.vite && overrides.vite !== options.release) {
-			throw new Error(
-				`conflicting overrides.vite=${overrides.vite} and --release=${options.release} config. Use either one or the other`,
+	// with test reports, failures of known failures don't fail the test phase
+	const runTests = async (pass: Pass) => {
+		if (!testReports.length || test == null) {
+			return runSuiteTask('test', pass, test)
+		}
+		await phase('test', pass, async (phase) => {
+			removeTestReports(dir, testReports)
+			let error
+			try {
+				await toCommand(test, agent, (phase.tasks = []))?.(pkg.scripts)
+			} catch (e) {
+				error = e
+			}
+			const summary = summarizeTestReports(
+				dir,
+				testReports,
+				options.knownFailures,
 			)
-		} else {
-			overrides.vite = options.release
+			if (!summary) {
+				log(`no test report found in ${testReports.join(', ')}`)
+			} else {
+				if (options.result && pass === 'override') {
+					options.result.tests = summary
+				}
+				logTestSummary(summary)
+			}
+			if (
+				error &&
+				(!summary || summary.failed.length || !summary.knownFailures.length)
+			) {
+				throw error
+			}
+		})
+	}
+
+	await runSuiteTask('beforeInstall', 'setup', beforeInstall)
+
+	if ((verify || options.baseline) && test) {
+		try {
+			const frozenInstall = getCommand(agent, 'frozen')
+			await phase('install', 'verify', () => $`${frozenInstall}`)
+			await runSuiteTask('beforeBuild', 'verify', beforeBuild)
+			await runSuiteTask('build', 'verify', build)
+			await runSuiteTask('beforeTest', 'verify', beforeTest)
+			await runTests('verify')
+		} catch (e) {
+			if (!options.baseline) {
+				throw e
+			}
+			log(`verify pass failed, continuing with overridden qwik to compare`)
+		}
+	}
+	const { overrides, aliasOverrides, expectedVersions } =
+		getQwikOverrides(options)
+	await phase('install', 'override', async () => {
+		await applyPackageOverrides(dir, pkg, overrides, aliasOverrides)
+		if (options.overrideCheck !== 'off') {
+			verifyOverrides(dir, expectedVersions, options)
 		}
+	})
+	await runSuiteTask('beforeBuild', 'override', beforeBuild)
+	await runSuiteTask('build', 'override', build)
+	if (test) {
+		await runSuiteTask('beforeTest', 'override', beforeTest)
+		await runTests('override')
+	}
+	return { dir }
+}
+
+/**
+ * describe what runInRepo would do in options.plan. The checkout is only read if it exists
+ * from an earlier run and git is only used to resolve refs
+ */
+async function planInRepo(options: RunOptions & RepoOptions, dir: string) {
+	const plan = options.plan!
+	const { repo, branch, tag, commit, test, verify, baseline } = options
+	plan.repo = repo
+	plan.branch = tag || branch
+	plan.dir = dir
+	const cloned = fs.existsSync(path.join(dir, 'package.json'))
+	if (options.skipGit) {
+		plan.commit = cloned ? await getHeadCommit(dir) : undefined
+	} else {
+		plan.commit =
+			commit ??
+			(await resolveRemoteRef(repo, tag ? `refs/tags/${tag}` : branch!))
+		plan.phases.push({
+			name: 'clone',
+			pass: 'setup',
+			commands: describeSetupRepo({ repo, dir, branch, tag, commit }, cloned),
+		})
+	}
+	let agent: Agent | undefined = options.agent
+	let scripts: { [name: string]: string } | undefined
+	if (cloned) {
+		cd(dir)
+		agent ??= (await detect({ cwd: dir, autoInstall: false })) ?? undefined
+		scripts =
+			JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'))
+				.scripts ?? {}
 	} else {
-		overrides['@builder.io/qwik'] ||= `${options.qwikPath}/packages/qwik`
-		overrides['@builder.io/qwik-city'] ||=
-			`${options.qwikPath}/packages/qwik-city`
-		overrides['eslint-plugin-qwik'] ||=
-			`${options.qwikPath}/packages/eslint-plugin-qwik`
-	}
-	await applyPackageOverrides(dir, pkg, overrides)
-	await beforeBuildCommand?.(pkg.scripts)
-	await buildCommand?.(pkg.scripts)
+		plan.notes.push(
+			'not cloned yet, the package manager is detected after cloning and tasks are shown as written',
+		)
+	}
+	plan.agent = agent
+
+	const describe = (task: Task | Task[] | undefined) =>
+		[task ?? []].flat().flatMap((task) => {
+			if (!agent || !scripts) {
+				return describeUnresolvedTask(task)
+			}
+			const resolved = resolveTask(task, agent, scripts)
+			if (!resolved) {
+				return []
+			}
+			const cwd = resolved.options.cwd ? `cd ${resolved.options.cwd} && ` : ''
+			return [
+				resolved.command
+					? `${cwd}${resolved.command}`
+					: `function ${resolved.name}`,
+			]
+		})
+	const addPhase = (
+		name: PhaseName,
+		pass: Pass,
+		task: Task | Task[] | undefined,
+	) => {
+		if (task != null) {
+			plan.phases.push({ name, pass, commands: describe(task) })
+		}
+	}
+
+	addPhase('beforeInstall', 'setup', options.beforeInstall)
+	if ((verify || baseline) && test) {
+		plan.phases.push({
+			name: 'install',
+			pass: 'verify',
+			commands: [agent ? getCommand(agent, 'frozen') : 'frozen install'],
+		})
+		addPhase('beforeBuild', 'verify', options.beforeBuild)
+		addPhase('build', 'verify', options.build)
+		addPhase('beforeTest', 'verify', options.beforeTest)
+		addPhase('test', 'verify', test)
+	}
+	const { overrides, aliasOverrides } = getQwikOverrides(options, false)
+	// the qwik packages are only built by the run, so their directories may not exist yet
+	const isLocal = (v: string) => path.isAbsolute(v)
+	const install = ['git clean -fdxq']
+	if (agent) {
+		const resolved = resolveOverrides(agent, overrides, aliasOverrides, isLocal)
+		plan.overrides = resolved.overrides
+		const env = Object.entries(resolved.strategy.installEnv?.(dir) ?? {})
+		install.push(
+			[
+				...env.map(([key, value]) => `${key}=${value}`),
+				resolved.strategy.installCommand,
+			].join(' '),
+		)
+	} else {
+		// file: is the directory protocol of all package managers but yarn berry
+		plan.overrides = normalizeOverrides(
+			overrideStrategies.npm.directoryProtocol,
+			overrides,
+			aliasOverrides,
+			isLocal,
+		).overrides
+		if (Object.values(plan.overrides).some((v) => v.startsWith('file:'))) {
+			plan.notes.push('yarn berry links local overrides with portal:')
+		}
+		install.push('install with the detected package manager')
+	}
+	plan.phases.push({ name: 'install', pass: 'override', commands: install })
+	addPhase('beforeBuild', 'override', options.beforeBuild)
+	addPhase('build', 'override', options.build)
 	if (test) {
-		await beforeTestCommand?.(pkg.scripts)
-		await testCommand?.(pkg.scripts)
+		addPhase('beforeTest', 'override', options.beforeTest)
+		addPhase('test', 'override', test)
 	}
 	return { dir }
 }
 
+function describeUnresolvedTask(task: Task): string[] {
+	if (task == null || task === '') {
+		return []
+	} else if (typeof task === 'string') {
+		return [task]
+	} else if (typeof task === 'function') {
+		return [`function ${task.name || 'function'}`]
+	}
+	const cwd = task.cwd ? `cd ${task.cwd} && ` : ''
+	return [
+		task.script
+			? `${cwd}run ${[task.script, ...(task.args ?? [])].join(' ')}`
+			: `${cwd}${task.command}`,
+	]
+}
+
+/**
+ * overrides of the qwik packages for a suite, packages of older majors are aliased to the ones replacing them
+ *
+ * @param readVersions read the versions the packages have to be installed with from the qwik checkout
+ */
+function getQwikOverrides(
+	options: RunOptions & RepoOptions,
+	readVersions = true,
+) {
+	const overrides = options.overrides || {}
+	const { packages, aliases = {} } = getQwikPackageMap(options.qwikMajor)
+	// versions the qwik packages have to be installed with after overriding
+	const expectedVersions: { [name: string]: string | undefined } = {}
+	if (options.releases) {
+		for (const [name, version] of Object.entries(options.releases)) {
+			if (overrides[name] && overrides[name] !== version) {
+				throw new Error(
+					`conflicting overrides[${name}]=${overrides[name]} and --release ${name}@${version} config. Use either one or the other`,
+				)
+			}
+			overrides[name] = version
+			expectedVersions[name] = semver.valid(version) ?? undefined
+		}
+	} else {
+		for (const [name, dir] of Object.entries(packages)) {
+			if (overrides[name]) {
+				continue
+			}
+			const packageDir = path.join(options.qwikPath, dir)
+			const tarball = options.tarballs?.[name]
+			overrides[name] = tarball ? `file:${tarball}` : packageDir
+			expectedVersions[name] = readVersions
+				? JSON.parse(
+						fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'),
+					).version
+				: undefined
+		}
+	}
+	const aliasOverrides: Overrides = {}
+	for (const [alias, name] of Object.entries(aliases)) {
+		const override = overrides[name]
+		if (typeof override === 'string' && overrides[alias] == null) {
+			aliasOverrides[alias] = toAliasOverride(name, override)
+			if (name in expectedVersions) {
+				expectedVersions[alias] = expectedVersions[name]
+			}
+		}
+	}
+	return { overrides, aliasOverrides, expectedVersions }
+}
+
+/**
+ * check that the installed qwik packages are the overridden ones
+ */
+function verifyOverrides(
+	dir: string,
+	expectedVersions: { [name: string]: string | undefined },
+	options: RunOptions,
+) {
+	if (!fs.existsSync(path.join(dir, 'node_modules'))) {
+		log('no node_modules, cannot check installed qwik packages')
+		return
+	}
+	const checks = checkOverrides(dir, expectedVersions)
+	if (options.result) {
+		options.result.overrides = checks
+	}
+	const describe = (check: OverrideCheck) =>
+		check.instances
+			.map(({ from, version, path }) => `${version} from ${from} in ${path}`)
+			.join(', ')
+	for (const check of checks) {
+		if (check.status === 'duplicate') {
+			log(
+				`warning: ${check.name} is installed more than once: ${describe(check)}`,
+			)
+		} else if (check.status === 'mismatch') {
+			log(
+				`${options.overrideCheck === 'warn' ? 'warning: ' : ''}${check.name} is not installed with the overridden version ${check.expected}: ${describe(check)}`,
+			)
+		}
+	}
+	const mismatches = checks.filter((check) => check.status === 'mismatch')
+	if (mismatches.length && options.overrideCheck !== 'warn') {
+		throw new Error(
+			`overrides did not take effect for ${mismatches.map((check) => check.name).join(', ')}`,
+		)
+	}
+}
+
+function logTestSummary(summary: TestSummary) {
+	log(
+		`${summary.passed} tests passed, ${summary.failed.length + summary.knownFailures.length} failed`,
+	)
+	for (const name of summary.failed) {
+		log(`  failed: ${name}`)
+	}
+	for (const name of summary.knownFailures) {
+		log(`  known failure: ${name}`)
+	}
+	for (const name of summary.fixed) {
+		log(`  known failure passed, remove it from knownFailures: ${name}`)
+	}
+}
+
 export async function setupQwikRepo(options: Partial<RepoOptions>) {
+	const { qwikPath } = getContext()
 	const repo = options.repo || 'QwikDev/qwik'
 	await setupRepo({
 		repo,
@@ -317,32 +1173,242 @@ export async function setupQwikRepo(options: Partial<RepoOptions>) {
 }
 
 export async function getPermanentRef() {
-	cd(qwikPath)
+	cd(getContext().qwikPath)
 	try {
 		const ref = await $`git log -1 --pretty=format:%H`
 		return ref
 	} catch (e) {
-		console.warn(`Failed to obtain perm ref. ${e}`)
+		log(`Failed to obtain perm ref. ${e}`)
+		return undefined
+	}
+}
+
+/**
+ * check for uncommitted changes in the qwik checkout, only uses read-only git commands
+ */
+export async function hasLocalChanges() {
+	cd(getContext().qwikPath)
+	try {
+		return (await $`git status --porcelain`).trim().length > 0
+	} catch (e) {
+		log(`Failed to check for local changes. ${e}`)
 		return undefined
 	}
 }
 
-export async function buildQwik({ verify = false }) {
+const BUILD_OUTPUT_DIRS = ['dist', 'lib']
+
+/**
+ * check if every qwik package has build output that is newer than all of its sources,
+ * so a local checkout doesn't have to be built again
+ */
+export function isQwikBuildFresh(qwikPath: string) {
+	const { packages } = getQwikPackageMap(parseQwikMajor(qwikPath))
+	return Object.values(packages).every((dir) => {
+		const packageDir = path.join(qwikPath, dir)
+		const output = BUILD_OUTPUT_DIRS.flatMap(
+			(name) => getMtimeRange(path.join(packageDir, name)) ?? [],
+		)
+		if (!output.length) {
+			return false
+		}
+		const sources = getMtimeRange(path.join(packageDir, 'src'))
+		const oldestOutput = Math.min(...output.map((range) => range.oldest))
+		return !sources || sources.newest < oldestOutput
+	})
+}
+
+function getMtimeRange(
+	dir: string,
+): { oldest: number; newest: number } | undefined {
+	if (!fs.existsSync(dir)) {
+		return undefined
+	}
+	let range: { oldest: number; newest: number } | undefined
+	for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+		if (entry.name === 'node_modules') {
+			continue
+		}
+		const file = path.join(dir, entry.name)
+		let entryRange
+		if (entry.isDirectory()) {
+			entryRange = getMtimeRange(file)
+		} else {
+			const { mtimeMs } = fs.statSync(file)
+			entryRange = { oldest: mtimeMs, newest: mtimeMs }
+		}
+		if (entryRange) {
+			range = range
+				? {
+						oldest: Math.min(range.oldest, entryRange.oldest),
+						newest: Math.max(range.newest, entryRange.newest),
+					}
+				: entryRange
+		}
+	}
+	return range
+}
+
+/**
+ * install and build qwik. With cache the build output of a clean checkout is restored from
+ * the build cache instead of building when it was built before, otherwise it is stored there
+ *
+ * @returns true if the build output was restored from the cache
+ */
+export async function buildQwik({
+	verify = false,
+	cache,
+}: {
+	verify?: boolean
+	cache?: BuildCacheOptions
+}) {
+	const { qwikPath } = getContext()
+	const sha =
+		cache && (await hasLocalChanges()) === false
+			? await getPermanentRef()
+			: undefined
 	cd(qwikPath)
 	const frozenInstall = getCommand('pnpm', 'frozen')
 	const runBuild = getCommand('pnpm', 'run', ['build.full'])
 	const runTest = getCommand('pnpm', 'run', ['test'])
 	await $`${frozenInstall}`
-	await $`${runBuild}`
+	let restored = false
+	if (
+		cache &&
+		sha &&
+		restoreQwikBuild(cache.dir, qwikPath, sha, BUILD_OUTPUT_DIRS)
+	) {
+		log(`restored qwik build of ${sha} from ${cache.dir}`)
+		restored = true
+	} else {
+		await $`${runBuild}`
+		if (cache && sha) {
+			storeQwikBuild(cache.dir, qwikPath, sha, BUILD_OUTPUT_DIRS, cache.maxSize)
+		}
+	}
 	if (verify) {
 		await $`${runTest}`
 	}
+	return restored
+}
+
+/**
+ * the commands buildQwik runs
+ *
+ * @param restore whether the build is restored from the build cache
+ */
+export function describeBuildQwik({
+	verify = false,
+	restore = false,
+}: {
+	verify?: boolean
+	restore?: boolean
+}) {
+	return [
+		getCommand('pnpm', 'frozen'),
+		restore
+			? 'restore build output from build cache'
+			: getCommand('pnpm', 'run', ['build.full']),
+		...(verify ? [getCommand('pnpm', 'run', ['test'])] : []),
+	]
+}
+
+/**
+ * pack every qwik package with `pnpm pack` and check that the tarballs contain the files referenced by their exports.
+ * Tarballs are cached in workspace/tarballs/<sha>, pass cache false for checkouts with local changes
+ *
+ * @returns map of package name to tarball path
+ */
+export async function packQwik(
+	workspace: string,
+	sha: string | undefined,
+	cache = true,
+): Promise<{ [name: string]: string }> {
+	const { qwikPath } = getContext()
+	const cacheKey = cache ? sha : undefined
+	const dest = path.join(workspace, 'tarballs', cacheKey ?? 'local')
+	const indexFile = path.join(dest, 'tarballs.json')
+	if (cacheKey && fs.existsSync(indexFile)) {
+		const tarballs = JSON.parse(fs.readFileSync(indexFile, 'utf-8'))
+		if (Object.values<string>(tarballs).every((file) => fs.existsSync(file))) {
+			log(`using cached qwik tarballs from ${dest}`)
+			return tarballs
+		}
+	}
+	fs.rmSync(dest, { recursive: true, force: true })
+	fs.mkdirSync(dest, { recursive: true })
+	const tarballs: { [name: string]: string } = {}
+	const { packages } = getQwikPackageMap(parseQwikMajor(qwikPath))
+	for (const [name, dir] of Object.entries(packages)) {
+		cd(path.join(qwikPath, dir))
+		const stdout = await $`pnpm pack --pack-destination ${dest}`
+		const tarball = path.resolve(
+			dest,
+			path.basename(stdout.trim().split('\n').pop()!),
+		)
+		await checkTarballExports(name, path.join(qwikPath, dir), tarball)
+		tarballs[name] = tarball
+	}
+	fs.writeFileSync(indexFile, JSON.stringify(tarballs, null, 2), 'utf-8')
+	return tarballs
+}
+
+/**
+ * fail when a file referenced by main, types, bin or exports of a package is missing from its tarball
+ */
+async function checkTarballExports(
+	name: string,
+	packageDir: string,
+	tarball: string,
+) {
+	const pkg = JSON.parse(
+		await fs.promises.readFile(path.join(packageDir, 'package.json'), 'utf-8'),
+	)
+	const { stdout } = await execa('tar', ['-tzf', tarball])
+	// npm and pnpm put all files into a package/ directory
+	const files = stdout
+		.split('\n')
+		.filter(Boolean)
+		.map((file) => file.replace(/^[^/]+\//, ''))
+	const targets = new Set<string>()
+	const collect = (value: unknown) => {
+		if (typeof value === 'string') {
+			targets.add(path.posix.normalize(value))
+		} else if (Array.isArray(value)) {
+			value.forEach(collect)
+		} else if (value && typeof value === 'object') {
+			Object.values(value).forEach(collect)
+		}
+	}
+	collect([pkg.main, pkg.module, pkg.types, pkg.typings, pkg.bin, pkg.exports])
+	const missing = [...targets].filter((target) => {
+		if (target.endsWith('/')) {
+			return !files.some((file) => file.startsWith(target))
+		}
+		if (target.includes('*')) {
+			// subpath patterns match any string including slashes
+			const escaped = target
+				.split('*')
+				.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+			const pattern = new RegExp(`^${escaped.join('.+')}$`)
+			return !files.some((file) => pattern.test(file))
+		}
+		return !files.includes(target)
+	})
+	if (missing.length) {
+		throw new Error(
+			`packed ${name} is missing files referenced by its package.json: ${missing.join(', ')}`,
+		)
+	}
 }
 
 export async function bisectQwik(
 	good: string,
-	runSuite: () => Promise<Error | void>,
-) {
+	runSuite: (step: BisectStep) => Promise<void>,
+	result: BisectResult = { good, steps: [] },
+	skipOptions: BisectSkipOptions = {},
+): Promise<BisectResult> {
+	const { qwikPath } = getContext()
 	// sometimes vite build modifies files in git, e.g. LICENSE.md
 	// this would stop bisect, so to reset those changes
 	const resetChanges = async () => $`git reset --hard HEAD`
@@ -355,17 +1421,26 @@ export async function bisectQwik(
 		await $`git bisect good ${good}`
 		let bisecting = true
 		while (bisecting) {
-			const commitMsg = await $`git log -1 --format=%s`
-			const isNonCodeCommit = commitMsg.match(/^(?:release|docs)[:(]/)
-			if (isNonCodeCommit) {
-				await $`git bisect skip`
-				continue // see if next commit can be skipped too
+			const step: BisectStep = {
+				sha: (await $`git rev-parse HEAD`).trim(),
+				result: 'skip',
+				suites: [],
 			}
-			const error = await runSuite()
-			cd(qwikPath)
-			await resetChanges()
-			const bisectOut = await $`git bisect ${error ? 'bad' : 'good'}`
+			result.steps.push(step)
+			step.reason = await getBisectSkipReason(skipOptions)
+			if (!step.reason) {
+				await runSuite(step)
+				cd(qwikPath)
+				await resetChanges()
+			}
+			if (step.result === 'skip') {
+				log(`skipping ${step.sha}, ${step.reason}`)
+			}
+			const bisectOut = await $`git bisect ${step.result}`
 			bisecting = bisectOut.substring(0, 10).toLowerCase() === 'bisecting:' // as long as git prints 'bisecting: ' there are more revisions to test
+			result.firstBad = bisectOut.match(
+				/^([0-9a-f]{40}) is the first bad commit/m,
+			)?.[1]
 		}
 	} catch (e) {
 		console.log('error while bisecting', e)
@@ -377,6 +1452,126 @@ export async function bisectQwik(
 			console.log('Error while resetting bisect', e)
 		}
 	}
+	return result
+}
+
+/**
+ * binary search the first broken release in versions, the last of them is known to be bad.
+ * Releases that cannot be tested are skipped and the closest untested one is tried instead.
+ */
+export async function bisectReleases(
+	versions: string[],
+	runRelease: (step: BisectStep) => Promise<void>,
+	result: BisectResult,
+): Promise<BisectResult> {
+	let good = -1
+	let bad = versions.length - 1
+	const skipped = new Set<number>()
+	for (;;) {
+		const mid = Math.floor((good + bad) / 2)
+		let index: number | undefined
+		for (let i = good + 1; i < bad; i++) {
+			if (
+				!skipped.has(i) &&
+				(index == null || Math.abs(i - mid) < Math.abs(index - mid))
+			) {
+				index = i
+			}
+		}
+		if (index == null) {
+			break
+		}
+		const step: BisectStep = {
+			version: versions[index],
+			result: 'skip',
+			suites: [],
+		}
+		result.steps.push(step)
+		await runRelease(step)
+		log(`release ${step.version} is ${step.result}`)
+		if (step.result === 'skip') {
+			skipped.add(index)
+		} else if (step.result === 'bad') {
+			bad = index
+		} else {
+			good = index
+		}
+	}
+	result.lastGood = good >= 0 ? versions[good] : result.good
+	if (bad - good === 1) {
+		result.firstBad = versions[bad]
+	} else {
+		log(
+			`releases ${versions.slice(good + 1, bad + 1).join(', ')} were skipped, the first bad release could be any of them`,
+		)
+	}
+	return result
+}
+
+/**
+ * @returns why the current commit should be skipped, or undefined if it has to be tested
+ */
+async function getBisectSkipReason({
+	commitPatterns = [],
+	paths = [],
+}: BisectSkipOptions): Promise<string | undefined> {
+	const commitMsg = await $`git log -1 --format=%s`
+	const pattern = [NON_CODE_COMMIT_PATTERN, ...commitPatterns].find((p) =>
+		p.test(commitMsg),
+	)
+	if (pattern) {
+		return `commit message matches ${pattern}`
+	}
+	if (paths.length > 0) {
+		const files = (await $`git diff-tree --no-commit-id --name-only -r HEAD`)
+			.split('\n')
+			.filter(Boolean)
+		const matchers = paths.map(createGlobMatcher)
+		const isSkipped = (file: string) =>
+			matchers.some((matches) => matches(file))
+		if (files.length > 0 && files.every(isSkipped)) {
+			return `only files matching ${paths.join(', ')} changed`
+		}
+	}
+	return undefined
+}
+
+/**
+ * match files against a glob with *, ** and ?. Globs without / match the basename of files
+ */
+export function createGlobMatcher(glob: string): (file: string) => boolean {
+	let source = ''
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i]
+		if (char === '*' && glob[i + 1] === '*' && glob[i + 2] === '/') {
+			// **/ matches no or any number of whole directories
+			source += '(?:.*/)?'
+			i += 2
+		} else if (char === '*' && glob[i + 1] === '*') {
+			source += '.*'
+			i += 1
+		} else if (char === '*') {
+			source += '[^/]*'
+		} else if (char === '?') {
+			source += '[^/]'
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		}
+	}
+	const regex = new RegExp(`^${source}$`)
+	return glob.includes('/')
+		? (file) => regex.test(file)
+		: (file) => regex.test(path.posix.basename(file))
+}
+
+/**
+ * override for an old package name that installs the package replacing it
+ */
+function toAliasOverride(name: string, override: string) {
+	if (isTarballUrl(override) || isLocalOverride(override)) {
+		return override
+	}
+	return `npm:${name}@${override}`
 }
 
 function isLocalOverride(v: string): boolean {
@@ -417,7 +1612,7 @@ async function overridePackageManagerVersion(
 		}
 	}
 	if (overrideWithVersion) {
-		console.warn(
+		log(
 			`detected ${pm}@${versionInUse} used in ${pkg.name}, changing pkg.packageManager and pkg.engines.${pm} to enforce use of ${pm}@${overrideWithVersion}`,
 		)
 		// corepack reads this and uses pnpm @ newVersion then
@@ -438,94 +1633,362 @@ async function overridePackageManagerVersion(
 	return false
 }
 
+interface OverrideStrategy {
+	/** protocol used for overrides that point to a local directory */
+	directoryProtocol: string
+	/**
+	 * write overrides to package.json
+	 *
+	 * @param directOverrides overrides without alias overrides, they may have to be added as dependencies
+	 */
+	apply(
+		pkg: any,
+		overrides: { [name: string]: string },
+		directOverrides: { [name: string]: string },
+	): void
+	/** install with a native command, `ni` could cause lockfile violation errors */
+	installCommand: string
+	/** env of the install command */
+	installEnv?(dir: string): { [key: string]: string } | undefined
+}
+
+/**
+ * npm and bun don't apply overrides to direct dependencies, force it by updating the blocks themselves
+ */
+function replaceDirectDependencies(
+	pkg: any,
+	overrides: { [name: string]: string },
+) {
+	for (const [name, version] of Object.entries(overrides)) {
+		if (pkg.dependencies?.[name]) {
+			pkg.dependencies[name] = version
+		}
+		if (pkg.devDependencies?.[name]) {
+			pkg.devDependencies[name] = version
+		}
+	}
+}
+
+const overrideStrategies: { [pm: string]: OverrideStrategy } = {
+	pnpm: {
+		directoryProtocol: 'file:',
+		apply(pkg, overrides, directOverrides) {
+			pkg.devDependencies = {
+				...pkg.devDependencies,
+				...directOverrides, // overrides must be present in devDependencies or dependencies otherwise they may not work
+			}
+			pkg.pnpm = {
+				...pkg.pnpm,
+				overrides: { ...pkg.pnpm?.overrides, ...overrides },
+			}
+		},
+		installCommand:
+			'pnpm install --prefer-frozen-lockfile --strict-peer-dependencies false',
+	},
+	yarn: {
+		directoryProtocol: 'file:',
+		apply(pkg, overrides) {
+			pkg.resolutions = { ...pkg.resolutions, ...overrides }
+		},
+		installCommand: 'yarn install',
+	},
+	'yarn@berry': {
+		// file: copies the directory into the cache, portal: links it and resolves its dependencies
+		directoryProtocol: 'portal:',
+		apply(pkg, overrides) {
+			pkg.resolutions = { ...pkg.resolutions, ...overrides }
+		},
+		installCommand: 'yarn install',
+		installEnv(dir) {
+			// built qwik packages may import peers they don't declare, which strict pnp doesn't allow
+			return getYarnNodeLinker(dir) === 'pnp'
+				? { YARN_PNP_FALLBACK_MODE: 'all' }
+				: undefined
+		},
+	},
+	npm: {
+		directoryProtocol: 'file:',
+		apply(pkg, overrides) {
+			pkg.overrides = { ...pkg.overrides, ...overrides }
+			replaceDirectDependencies(pkg, overrides)
+		},
+		installCommand: 'npm install',
+	},
+	bun: {
+		directoryProtocol: 'file:',
+		apply(pkg, overrides) {
+			pkg.overrides = { ...pkg.overrides, ...overrides }
+			replaceDirectDependencies(pkg, overrides)
+		},
+		installCommand: 'bun install',
+	},
+}
+
+/**
+ * read nodeLinker from .yarnrc.yml, yarn berry uses pnp when it isn't set
+ */
+function getYarnNodeLinker(dir: string) {
+	const yarnrcFile = path.join(dir, '.yarnrc.yml')
+	const yarnrc = fs.existsSync(yarnrcFile)
+		? fs.readFileSync(yarnrcFile, 'utf-8')
+		: ''
+	return yarnrc.match(/^nodeLinker:\s*["']?([\w-]+)/m)?.[1] ?? 'pnp'
+}
+
+/**
+ * @param aliasOverrides like overrides, but only applied to the dependency tree instead of also being added as dependencies
+ */
 export async function applyPackageOverrides(
 	dir: string,
 	pkg: any,
 	overrides: Overrides = {},
+	aliasOverrides: Overrides = {},
 ) {
-	const useFileProtocol = (v: string) =>
-		isLocalOverride(v) ? `file:${path.resolve(v)}` : v
-	// remove boolean flags
-	overrides = Object.fromEntries(
-		Object.entries(overrides)
-			//eslint-disable-next-line @typescript-eslint/no-unused-vars
-			.filter(([key, value]) => typeof value === 'string')
-			.map(([key, value]) => [key, useFileProtocol(value as string)]),
-	)
 	await $`git clean -fdxq` // remove current install
 
 	const agent = await detect({ cwd: dir, autoInstall: false })
 	if (!agent) {
 		throw new Error(`failed to detect packageManager in ${dir}`)
 	}
-	// Remove version from agent string:
-	// yarn@berry => yarn
-	// pnpm@6, pnpm@7 => pnpm
-	const pm = agent?.split('@')[0]
+	const resolved = resolveOverrides(agent, overrides, aliasOverrides)
+	await overridePackageManagerVersion(pkg, agent.split('@')[0])
+	resolved.strategy.apply(pkg, resolved.overrides, resolved.directOverrides)
+	const pkgFile = path.join(dir, 'package.json')
+	await fs.promises.writeFile(pkgFile, JSON.stringify(pkg, null, 2), 'utf-8')
 
-	await overridePackageManagerVersion(pkg, pm)
+	const { installCommand, installEnv } = resolved.strategy
+	await $({ env: installEnv?.(dir) })`${installCommand}`
+}
 
-	if (pm === 'pnpm') {
-		if (!pkg.devDependencies) {
-			pkg.devDependencies = {}
-		}
-		pkg.devDependencies = {
-			...pkg.devDependencies,
-			...overrides, // overrides must be present in devDependencies or dependencies otherwise they may not work
-		}
-		if (!pkg.pnpm) {
-			pkg.pnpm = {}
-		}
-		pkg.pnpm.overrides = {
-			...pkg.pnpm.overrides,
-			...overrides,
-		}
-	} else if (pm === 'yarn') {
-		pkg.resolutions = {
-			...pkg.resolutions,
-			...overrides,
-		}
-	} else if (pm === 'npm') {
-		pkg.overrides = {
-			...pkg.overrides,
-			...overrides,
-		}
-		// npm does not allow overriding direct dependencies, force it by updating the blocks themselves
-		for (const [name, version] of Object.entries(overrides)) {
-			if (pkg.dependencies?.[name]) {
-				pkg.dependencies[name] = version
-			}
-			if (pkg.devDependencies?.[name]) {
-				pkg.devDependencies[name] = version
-			}
-		}
-	} else {
+/**
+ * pick the override strategy of the package manager and prepare the overrides it writes to package.json
+ */
+function resolveOverrides(
+	agent: Agent,
+	overrides: Overrides,
+	aliasOverrides: Overrides,
+	isLocal = isLocalOverride,
+) {
+	// yarn berry needs its own protocols, for the others the version doesn't matter:
+	// pnpm@6, pnpm@7 => pnpm
+	const pm = agent === 'yarn@berry' ? agent : agent.split('@')[0]
+	const strategy = overrideStrategies[pm]
+	if (!strategy) {
 		throw new Error(`unsupported package manager detected: ${pm}`)
 	}
-	const pkgFile = path.join(dir, 'package.json')
-	await fs.promises.writeFile(pkgFile, JSON.stringify(pkg, null, 2), 'utf-8')
+	return {
+		strategy,
+		...normalizeOverrides(
+			strategy.directoryProtocol,
+			overrides,
+			aliasOverrides,
+			isLocal,
+		),
+	}
+}
 
-	// use of `ni` command here could cause lockfile violation errors so fall back to native commands that avoid these
-	if (pm === 'pnpm') {
-		await $`pnpm install --prefer-frozen-lockfile --strict-peer-dependencies false`
-	} else if (pm === 'yarn') {
-		await $`yarn install`
-	} else if (pm === 'npm') {
-		await $`npm install`
+/**
+ * remove boolean flags and point local overrides at their directory with the protocol of the package manager
+ */
+function normalizeOverrides(
+	directoryProtocol: string,
+	overrides: Overrides,
+	aliasOverrides: Overrides,
+	isLocal: (v: string) => boolean,
+) {
+	const useDirectoryProtocol = (v: string) =>
+		isLocal(v) ? `${directoryProtocol}${path.resolve(v)}` : v
+	const normalize = (overrides: Overrides) =>
+		Object.fromEntries(
+			Object.entries(overrides)
+				//eslint-disable-next-line @typescript-eslint/no-unused-vars
+				.filter(([key, value]) => typeof value === 'string')
+				.map(([key, value]) => [key, useDirectoryProtocol(value as string)]),
+		)
+	const directOverrides = normalize(overrides)
+	return {
+		directOverrides,
+		overrides: { ...directOverrides, ...normalize(aliasOverrides) },
+	}
+}
+
+function getRegistry() {
+	return (process.env.npm_config_registry || NPM_REGISTRY).replace(/\/$/, '')
+}
+
+interface Packument {
+	'dist-tags': { [tag: string]: string }
+	versions: { [version: string]: unknown }
+}
+
+async function fetchPackument(name: string): Promise<Packument> {
+	const url = `${getRegistry()}/${name.replace('/', '%2f')}`
+	const res = await fetch(url, {
+		headers: { Accept: 'application/vnd.npm.install-v1+json' },
+	})
+	if (!res.ok) {
+		throw new Error(
+			`Failed to fetch ${name} from ${url} (${res.status} ${res.statusText})`,
+		)
+	}
+	return (await res.json()) as Packument
+}
+
+function isTarballUrl(spec: string) {
+	return /^(?:https?|file):/.test(spec)
+}
+
+/**
+ * resolve a version, range or dist-tag of a package to a concrete version published on the registry.
+ * tarball urls are returned as is.
+ */
+export async function resolvePackageRelease(
+	name: string,
+	spec: string,
+): Promise<string> {
+	if (isTarballUrl(spec)) {
+		return spec
+	}
+	const packument = await fetchPackument(name)
+	const version = resolveVersion(packument, spec)
+	if (!version) {
+		throw new Error(`${name}@${spec} is not published on ${getRegistry()}`)
+	}
+	return version
+}
+
+function resolveVersion(packument: Packument, spec: string) {
+	return (
+		packument['dist-tags'][spec] ??
+		semver.maxSatisfying(Object.keys(packument.versions), spec)
+	)
+}
+
+/**
+ * list the published versions of qwik after good up to and including bad, oldest first
+ *
+ * @param good version, range or dist-tag of the last known good release
+ * @param bad version, range or dist-tag of a broken release
+ * @param includePrereleases also list prereleases between good and bad
+ * @returns the resolved good version and the versions to bisect
+ */
+export async function getReleaseVersions(
+	good: string,
+	bad: string,
+	includePrereleases = false,
+): Promise<{ good: string; versions: string[] }> {
+	const { core } = getQwikPackageMap(parseReleaseMajor(good))
+	const packument = await fetchPackument(core)
+	const goodVersion = resolveVersion(packument, good)
+	const badVersion = resolveVersion(packument, bad)
+	if (!goodVersion || !badVersion) {
+		throw new Error(
+			`${core}@${goodVersion ? bad : good} is not published on ${getRegistry()}`,
+		)
+	}
+	if (!semver.lt(goodVersion, badVersion)) {
+		throw new Error(
+			`good release ${goodVersion} has to be older than bad release ${badVersion}`,
+		)
 	}
+	const versions = Object.keys(packument.versions)
+		.filter(
+			(v) =>
+				semver.gt(v, goodVersion) &&
+				semver.lte(v, badVersion) &&
+				(includePrereleases || !semver.prerelease(v) || v === badVersion),
+		)
+		.sort(semver.compare)
+	return { good: goodVersion, versions }
+}
+
+/**
+ * resolve the versions of all qwik packages for release mode. The packages are not released in lockstep,
+ * the other packages use their highest release of the same major up to the release of the core package
+ * and are left out if they have none
+ *
+ * @param release version, range or dist-tag of the core package
+ * @param packageReleases per package specs in the form of `name=spec`, spec can be a version, range, dist-tag or tarball url
+ * @returns map of package name to resolved version or tarball url
+ */
+export async function resolveReleaseOverrides(
+	release: string,
+	packageReleases: string | string[] = [],
+): Promise<{ [name: string]: string }> {
+	if (isTarballUrl(release)) {
+		throw new Error(
+			`--release has to be a version, range or dist-tag, use --release-package <name>=${release} for tarballs`,
+		)
+	}
+	const { core, packages } = getQwikPackageMap(parseReleaseMajor(release))
+	const specs: { [name: string]: string } = {}
+	for (const packageRelease of [packageReleases].flat()) {
+		const separator = packageRelease.indexOf('=')
+		const name = packageRelease.slice(0, separator)
+		if (separator < 0 || !packages[name]) {
+			throw new Error(
+				`invalid --release-package ${packageRelease}, expected <name>=<spec> with name one of ${Object.keys(packages).join(', ')}`,
+			)
+		}
+		specs[name] = packageRelease.slice(separator + 1)
+	}
+	// resolve dist-tags and ranges once so all packages end up on the same release
+	const version = await resolvePackageRelease(core, release)
+	const releases: { [name: string]: string } = {}
+	for (const name of Object.keys(packages)) {
+		if (specs[name]) {
+			releases[name] = await resolvePackageRelease(name, specs[name])
+		} else if (name === core) {
+			releases[name] = version
+		} else {
+			const packument = await fetchPackument(name)
+			const matching = semver.maxSatisfying(
+				Object.keys(packument.versions),
+				`>=${semver.major(version)}.0.0-0 <=${version}`,
+			)
+			if (matching) {
+				releases[name] = matching
+			} else {
+				// stderr keeps the output of --dry-run --json parseable
+				console.warn(
+					`${name} has no release up to ${version}, it is not overridden`,
+				)
+			}
+		}
+	}
+	return releases
 }
 
 export function dirnameFrom(url: string) {
 	return path.dirname(fileURLToPath(url))
 }
 
+/**
+ * read the qwik major version from the core package of a qwik checkout
+ */
 export function parseQwikMajor(qwikPath: string): number {
-	const content = fs.readFileSync(
-		path.join(qwikPath, 'packages', 'qwik', 'package.json'),
-		'utf-8',
-	)
-	const pkg = JSON.parse(content)
-	return parseMajorVersion(pkg.version)
+	for (const { core, packages } of Object.values(qwikPackageMaps)) {
+		const file = path.join(qwikPath, packages[core], 'package.json')
+		if (!fs.existsSync(file)) {
+			continue
+		}
+		const pkg = JSON.parse(fs.readFileSync(file, 'utf-8'))
+		if (pkg.name === core) {
+			return parseMajorVersion(pkg.version)
+		}
+	}
+	const cores = Object.values(qwikPackageMaps).map(({ core }) => core)
+	throw new Error(`cannot find ${cores.join(' or ')} in ${qwikPath}`)
+}
+
+/**
+ * major version of a release spec, dist-tags use the default major
+ */
+export function parseReleaseMajor(spec: string) {
+	const range = semver.validRange(spec)
+	return range
+		? semver.minVersion(range)?.major ?? DEFAULT_QWIK_MAJOR
+		: DEFAULT_QWIK_MAJOR
 }
 
 export function parseMajorVersion(version: string) {